@@ -0,0 +1,11 @@
+/* eslint-env node */
+
+// Tests run offline against in-memory stand-ins for the KoLmafia runtime.
+module.exports = {
+  testEnvironment: "node",
+  roots: ["<rootDir>/test"],
+  moduleNameMapper: {
+    "^kolmafia$": "<rootDir>/test/fakes/kolmafia.ts",
+    "^libram$": "<rootDir>/test/fakes/libram.ts",
+  },
+};
@@ -0,0 +1,112 @@
+import { MonsterStrategy } from "./combat";
+import { debug } from "./lib";
+import {
+  banishSources,
+  delevelSources,
+  freekillSources,
+  physicalKillSources,
+  Resource,
+  runawaySources,
+  spellKillSources,
+  wandererSources,
+} from "./resources";
+import { restoreSources } from "./restore";
+import { LevelingQuest } from "./tasks/leveling";
+import { Task } from "./tasks/structure";
+
+type ResourceGroup = {
+  name: string;
+  sources: Resource[];
+  needed: (task: Task) => boolean; // Tasks that rely on this kind of resource
+  impact: string;
+};
+
+const resource_groups: ResourceGroup[] = [
+  {
+    name: "banishes",
+    sources: banishSources,
+    needed: (task) => task.combat?.can(MonsterStrategy.Banish) ?? false,
+    impact: "will adventure without banishing",
+  },
+  {
+    name: "runaways",
+    sources: runawaySources,
+    needed: (task) =>
+      (task.combat?.can(MonsterStrategy.Ignore) ||
+        task.combat?.can(MonsterStrategy.IgnoreNoBanish)) ??
+      false,
+    impact: "will fight monsters instead of running away",
+  },
+  {
+    name: "free kills",
+    sources: freekillSources,
+    needed: (task) => task.combat?.can(MonsterStrategy.KillFree) ?? false,
+    impact: "will cost extra turns",
+  },
+  {
+    name: "wanderers",
+    sources: wandererSources,
+    needed: (task) => task.delay !== undefined,
+    impact: "will burn delay without wanderers",
+  },
+];
+
+// Sources used by the default combat macros and heals, along with their fallbacks
+const default_groups: [string, Resource[], string][] = [
+  ["Delevel with", delevelSources, "nothing"],
+  ["Spell kills with", spellKillSources, "attacking"],
+  ["Physical kills with", physicalKillSources, "attacking"],
+  ["Restore with", restoreSources, "nothing"],
+];
+
+/**
+ * Determine the effect of any missing resources on the remaining tasks.
+ * @returns A description of each group of resources with nothing available.
+ */
+export function findImpacts(tasks: Task[]): string[] {
+  const impacts: string[] = [];
+  for (const group of resource_groups) {
+    if (group.sources.some((source) => source.available())) continue;
+    const affected = tasks.filter((task) => !task.completed() && group.needed(task));
+    if (affected.length === 0) continue;
+    impacts.push(
+      `No ${group.name}: ${affected.map((task) => task.name).join(", ")} ${group.impact}`
+    );
+  }
+  return impacts;
+}
+
+/**
+ * Print a report of which resources are available to this account, and
+ * what the run will be missing without the others.
+ */
+export function checkReadiness(tasks: Task[]): void {
+  for (const group of resource_groups) {
+    const available = group.sources.filter((source) => source.available());
+    const missing = group.sources.filter((source) => !source.available());
+    debug(`Available ${group.name}: ${available.map((source) => source.name).join(", ")}`);
+    if (missing.length > 0)
+      debug(`  Missing: ${missing.map((source) => source.name).join(", ")}`, "orange");
+  }
+
+  const leveling = LevelingQuest.tasks.filter((task) => task.ready !== undefined);
+  const unready = leveling.filter((task) => !task.ready?.());
+  debug(
+    `Available leveling: ${leveling
+      .filter((task) => task.ready?.())
+      .map((task) => task.name)
+      .join(", ")}`
+  );
+  if (unready.length > 0)
+    debug(`  Missing: ${unready.map((task) => task.name).join(", ")}`, "orange");
+
+  const impacts = findImpacts(tasks);
+  for (const impact of impacts) debug(impact, "orange");
+
+  for (const [label, sources, fallback] of default_groups) {
+    const available = sources.filter((source) => source.available());
+    if (available.length > 0)
+      debug(`${label}: ${available.map((source) => source.name).join(", ")}`, "blue");
+    else debug(`${label}: ${fallback}`, "orange");
+  }
+}
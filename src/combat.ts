@@ -2,20 +2,25 @@ import {
   equippedItem,
   Item,
   Monster,
-  monsterDefense,
   monsterLevelAdjustment,
-  myBuffedstat,
+  myHp,
   Skill,
   weaponType,
 } from "kolmafia";
-import { $item, $skill, $slot, $stat, Macro } from "libram";
+import { $slot, $stat, Macro } from "libram";
 import {
   BanishSource,
+  cheapSpellKillSources,
   CombatResource,
+  delevelSources,
   FreekillSource,
+  physicalKillSources,
   RunawaySource,
+  spellKillSources,
   WandererSource,
 } from "./resources";
+import { debug } from "./lib";
+import { chooseKill, estimateFight } from "./simulate";
 
 export enum MonsterStrategy {
   Ignore, // Task doesn't care what happens
@@ -53,6 +58,16 @@ export class CombatResourceAllocation {
     return Array.from(this.base.values());
   }
 
+  public get(for_strategy: MonsterStrategy): CombatResource | undefined {
+    return this.base.get(for_strategy);
+  }
+
+  public describe(): { [purpose: string]: string } {
+    const result: { [purpose: string]: string } = {};
+    this.base.forEach((resource, strategy) => (result[MonsterStrategy[strategy]] = resource.name));
+    return result;
+  }
+
   public has(for_strategy: MonsterStrategy) {
     return this.base.has(for_strategy);
   }
@@ -60,25 +75,68 @@ export class CombatResourceAllocation {
   public getMacro(for_strategy: MonsterStrategy): Macro | undefined {
     const resource = this.base.get(for_strategy);
     if (resource === undefined) return undefined;
-    if (resource.do instanceof Macro) return resource.do;
-    if (resource.do instanceof Item) return new Macro().item(resource.do);
-    if (resource.do instanceof Skill) return new Macro().skill(resource.do);
-    throw `Unable to convert resource ${resource.name} to a macro`;
+    return resourceMacro(resource);
   }
 }
 
+function resourceMacro(resource: CombatResource): Macro {
+  if (resource.do instanceof Macro) return resource.do;
+  if (resource.do instanceof Item) return new Macro().item(resource.do);
+  if (resource.do instanceof Skill) return new Macro().skill(resource.do);
+  throw `Unable to convert resource ${resource.name} to a macro`;
+}
+
+// Only attempt the step if it can be used in this fight (e.g. with enough MP)
+function tryResourceMacro(resource: CombatResource): Macro {
+  if (resource.do instanceof Item) return new Macro().tryItem(resource.do);
+  if (resource.do instanceof Skill) return new Macro().trySkill(resource.do);
+  return resourceMacro(resource);
+}
+
+/**
+ * Delevel the monster with everything available.
+ */
+export function delevelMacro(): Macro {
+  return new Macro().step(
+    ...delevelSources.filter((source) => source.available()).map(tryResourceMacro)
+  );
+}
+
+/**
+ * Kill the monster with the best available spell, or by attacking.
+ */
+export function spellKillMacro(): Macro {
+  return killMacro(spellKillSources);
+}
+
+/**
+ * Kill the monster with a cheap spell, or by attacking.
+ */
+export function cheapKillMacro(): Macro {
+  return killMacro(cheapSpellKillSources);
+}
+
+function killMacro(sources: CombatResource[]): Macro {
+  const source = sources.find((source) => source.available());
+  if (source === undefined) return new Macro().attack().repeat();
+  return resourceMacro(source).repeat();
+}
+
 export class BuiltCombatStrategy {
   macro: Macro = new Macro();
   boss: boolean;
   resources: CombatResourceAllocation;
+  hp: number; // HP expected at the start of the fight, once restored
 
   constructor(
     abstract: CombatStrategy,
     resources: CombatResourceAllocation,
-    wanderers: WandererSource[]
+    wanderers: WandererSource[],
+    hp = myHp()
   ) {
     this.boss = abstract.boss;
     this.resources = resources;
+    this.hp = hp;
 
     // First, kill wanderers
     for (const wanderer of wanderers) {
@@ -107,60 +165,41 @@ export class BuiltCombatStrategy {
   prepare_macro(strategy: MonsterStrategy | Macro, monster?: Monster): Macro {
     if (strategy instanceof Macro) return strategy;
 
-    // Upgrade normal kills to free kills if provided
-    if (
-      strategy === MonsterStrategy.Kill &&
-      this.resources.has(MonsterStrategy.KillFree) &&
-      !(monster?.boss || this.boss)
-    ) {
+    // Decide how to kill the monster, if we know what it is
+    const freekill = this.resources.has(MonsterStrategy.KillFree) && !(monster?.boss || this.boss);
+    if (strategy === MonsterStrategy.Kill && monster) {
+      const [choice, reason] = chooseKill(estimateFight(monster), this.hp, freekill);
+      debug(`Kill ${monster} with ${choice}: ${reason}`);
+      if (choice === "spell") return delevelMacro().step(spellKillMacro());
+      if (choice === "attack") return delevelMacro().attack().repeat();
       strategy = MonsterStrategy.KillFree;
     }
 
-    // Upgrade normal kills to hard kills if we are underleveled
-    if (
-      strategy === MonsterStrategy.Kill &&
-      this.resources.has(MonsterStrategy.KillFree) === undefined &&
-      monster &&
-      monsterDefense(monster) * 1.25 > myBuffedstat(weaponType(equippedItem($slot`Weapon`)))
-    ) {
-      strategy = MonsterStrategy.KillHard;
-    }
+    // Otherwise, upgrade normal kills to free kills if provided
+    if (strategy === MonsterStrategy.Kill && freekill) strategy = MonsterStrategy.KillFree;
 
     // Use the appropriate resource if provided
     const use_resource = this.resources.getMacro(strategy);
     if (use_resource !== undefined) return use_resource;
 
     // Otherwise, default to standard strategies
-    const delevel = new Macro()
-      .skill($skill`Curse of Weaksauce`)
-      .trySkill($skill`Pocket Crumbs`)
-      .trySkill($skill`Micrometeorite`)
-      .tryItem($item`Rain-Doh indigo cup`)
-      .trySkill($skill`Summon Love Mosquito`)
-      .tryItem($item`Time-Spinner`);
-
     switch (strategy) {
       case MonsterStrategy.IgnoreNoBanish:
       case MonsterStrategy.Ignore:
         // For a casual run, ignoring always means running away
-        return new Macro()
-          .runaway()
-          .skill($skill`Saucestorm`)
-          .attack()
-          .repeat();
+        return new Macro().runaway().step(cheapKillMacro());
       case MonsterStrategy.Kill:
-        if (monsterLevelAdjustment() > 150) return new Macro().skill($skill`Saucegeyser`).repeat();
-        if (monster && monster.physicalResistance >= 70)
-          return delevel.skill($skill`Saucegeyser`).repeat();
-        else return delevel.attack().repeat();
+        // Without a known monster, attack unless monsters are very strong
+        if (monsterLevelAdjustment() > 150) return spellKillMacro();
+        return delevelMacro().attack().repeat();
       case MonsterStrategy.KillHard:
         if (
           (monster && monster.physicalResistance >= 70) ||
           weaponType(equippedItem($slot`Weapon`)) !== $stat`muscle`
         ) {
-          return delevel.skill($skill`Saucegeyser`).repeat();
+          return delevelMacro().step(spellKillMacro());
         } else {
-          return delevel.skill($skill`Lunging Thrust-Smack`).repeat();
+          return delevelMacro().step(killMacro(physicalKillSources));
         }
       // Abort for strategies that can only be done with resources
       case MonsterStrategy.KillFree:
@@ -1,6 +1,6 @@
 import { Location, myAdventures } from "kolmafia";
 import { Task } from "./tasks/structure";
-import { $effect, $familiar, $item, $skill, get, have, PropertiesManager } from "libram";
+import { $effect, $familiar, $item, get, have, PropertiesManager, set } from "libram";
 import {
   BuiltCombatStrategy,
   CombatResourceAllocation,
@@ -11,7 +11,6 @@ import { Outfit } from "./outfit";
 import { applyEffects } from "./moods";
 import {
   adv1,
-  buy,
   choiceFollowsFight,
   cliExecute,
   equippedAmount,
@@ -19,15 +18,17 @@ import {
   itemAmount,
   myHp,
   myMaxhp,
-  myMaxmp,
-  restoreMp,
-  retrieveItem,
+  myMeat,
+  myTurncount,
   runChoice,
   runCombat,
   setAutoAttack,
-  useSkill,
 } from "kolmafia";
 import { debug } from "./lib";
+import { appendJournal } from "./journal";
+import { obtain, purchase, spendFor } from "./spending";
+import { classifyFailure, Failure, hardened, recover } from "./recovery";
+import { restore, restoreTargets } from "./restore";
 import {
   canChargeVoid,
   freekillSources,
@@ -37,13 +38,94 @@ import {
   wandererSources,
 } from "./resources";
 
+// Attempts are saved in a daily property so that they survive script restarts
+const attempts_property = "_loop_casual_attempts";
+
+function loadAttempts(): { [task_name: string]: number } {
+  const saved = get(attempts_property, "");
+  if (saved === "") return {};
+  return JSON.parse(saved);
+}
+
+/**
+ * Clear the saved attempts for a task.
+ * @param task_name The task to clear, or "all" to clear the attempts of every task.
+ */
+export function resetAttempts(task_name: string): void {
+  if (task_name === "all") {
+    set(attempts_property, "");
+    debug("Reset attempts for all tasks.");
+    return;
+  }
+
+  const attempts = loadAttempts();
+  if (!(task_name in attempts)) {
+    debug(`No attempts recorded for ${task_name}.`);
+    return;
+  }
+  delete attempts[task_name];
+  set(attempts_property, JSON.stringify(attempts));
+  debug(`Reset attempts for ${task_name}.`);
+}
+
+/**
+ * Find the tasks matching a comma-separated list of task names or quest prefixes (e.g. "Manor/*").
+ * Throws if any entry in the list matches no task.
+ */
+export function matchTasks(tasks: Task[], patterns: string): Set<string> {
+  const result = new Set<string>();
+  for (const raw_pattern of patterns.split(",")) {
+    const pattern = raw_pattern.trim();
+    if (pattern === "") continue;
+    const matches = tasks.filter((task) =>
+      pattern.endsWith("/*")
+        ? task.name.startsWith(pattern.substring(0, pattern.length - 1))
+        : task.name === pattern
+    );
+    if (matches.length === 0) throw `Unknown task ${pattern}`;
+    matches.forEach((task) => result.add(task.name));
+  }
+  return result;
+}
+
+/**
+ * Add every task that the given tasks depend on, directly or indirectly.
+ * @returns The names of the given tasks and their dependencies.
+ */
+export function withDependencies(tasks: Task[], task_names: Set<string>): Set<string> {
+  const tasks_by_name = new Map<string, Task>();
+  for (const task of tasks) tasks_by_name.set(task.name, task);
+  const result = new Set<string>();
+  const to_visit = Array.from(task_names);
+  while (to_visit.length > 0) {
+    const name = to_visit.pop() as string;
+    if (result.has(name)) continue;
+    result.add(name);
+    to_visit.push(...(tasks_by_name.get(name)?.after ?? []));
+  }
+  return result;
+}
+
 export class Engine {
-  attempts: { [task_name: string]: number } = {};
+  attempts: { [task_name: string]: number };
   propertyManager = new PropertiesManager();
   tasks: Task[];
   tasks_by_name = new Map<string, Task>();
+  skipped: Set<string>;
+  max_recoveries: number;
+  recoveries = 0;
+  hardened = new Set<string>(); // Tasks to retry with a stronger outfit after a failure
 
-  constructor(tasks: Task[]) {
+  /**
+   * @param tasks The tasks to perform, in priority order.
+   * @param skipped Names of tasks that should never be executed, but are
+   *    treated as completed for the purposes of dependencies.
+   * @param max_recoveries The number of failures to recover from before stopping.
+   */
+  constructor(tasks: Task[], skipped?: Set<string>, max_recoveries = 0) {
+    this.attempts = loadAttempts();
+    this.skipped = skipped ?? new Set<string>();
+    this.max_recoveries = max_recoveries;
     this.tasks = tasks;
     for (const task of tasks) {
       this.tasks_by_name.set(task.name, task);
@@ -51,14 +133,42 @@ export class Engine {
   }
 
   public available(task: Task): boolean {
-    for (const after of task.after) {
-      const after_task = this.tasks_by_name.get(after);
-      if (after_task === undefined) throw `Unknown task dependency ${after} on ${task.name}`;
-      if (!after_task.completed()) return false;
+    return this.blockers(task, true).length === 0;
+  }
+
+  /**
+   * Find the reasons that a task cannot be executed right now.
+   * @param task The task to check.
+   * @param first_only If true, stop after the first reason found.
+   * @returns A description of each reason, or [] if the task is available.
+   */
+  public blockers(task: Task, first_only = false): string[] {
+    // Checked lazily and in order. ready() is only called once dependencies are done,
+    // since it may depend on them (e.g. on quest progress)
+    const result: string[] = [];
+    const checks: (() => string | undefined)[] = [
+      () => (this.skipped.has(task.name) ? "skipped" : undefined),
+      ...task.after.map((after) => () => {
+        const after_task = this.tasks_by_name.get(after);
+        if (after_task === undefined) throw `Unknown task dependency ${after} on ${task.name}`;
+        return after_task.completed() || this.skipped.has(after) ? undefined : `after ${after}`;
+      }),
+      () => {
+        if (result.some((reason) => reason.startsWith("after "))) return undefined;
+        if (!task.ready || task.ready()) return undefined;
+        return task.readyReason ? `not ready (${task.readyReason})` : "not ready";
+      },
+      () => (myAdventures() === 0 && !task.noadventures ? "out of adventures" : undefined),
+      () => (task.completed() ? "completed" : undefined),
+    ];
+
+    for (const check of checks) {
+      const reason = check();
+      if (reason === undefined) continue;
+      result.push(reason);
+      if (first_only) break;
     }
-    if (task.ready && !task.ready()) return false;
-    if (myAdventures() === 0 && !task.noadventures) return false;
-    return !task.completed();
+    return result;
   }
 
   public hasDelay(task: Task): boolean {
@@ -98,6 +208,11 @@ export class Engine {
     debug(``);
     debug(`Executing ${task.name}`, "blue");
     this.check_limits(task);
+    if (this.hardened.has(task.name)) {
+      debug(`Using a hardened outfit and combat strategy for ${task.name}`, "orange");
+      task = hardened(task);
+    }
+    spendFor(task.name);
 
     // Get needed items
     for (const to_get of task.acquire || []) {
@@ -110,10 +225,10 @@ export class Engine {
         cliExecute("fold makeshift garbage shirt");
       } else if (to_get.price !== undefined) {
         debug(`Purchasing ${num_needed - num_have} ${to_get.item} below ${to_get.price}`);
-        buy(to_get.item, num_needed - num_have, to_get.price);
+        purchase(to_get.item, num_needed - num_have, to_get.price);
       } else {
         debug(`Acquiring ${num_needed} ${to_get.item}`);
-        retrieveItem(to_get.item, num_needed);
+        obtain(to_get.item, num_needed);
       }
       if (itemAmount(to_get.item) + equippedAmount(to_get.item) < num_needed && !to_get.optional) {
         throw `Task ${task.name} was unable to acquire ${num_needed} ${to_get.item}`;
@@ -147,49 +262,16 @@ export class Engine {
         throw `Wanderer equipment ${wanderer.equip} conflicts with ${task.name}`;
     }
 
+    let combat_resources = new CombatResourceAllocation();
     if (!task.freeaction) {
       // Prepare combat macro
       const task_combat = task.combat ?? new CombatStrategy();
-      const combat_resources = new CombatResourceAllocation();
-
-      if (wanderers.length === 0) {
-        // Set up a banish if needed
-        const banishSources = unusedBanishes(task_combat.where(MonsterStrategy.Banish));
-        combat_resources.banishWith(outfit.equipFirst(banishSources));
-
-        // Set up a runaway if there are combats we do not care about
-        let runaway = undefined;
-        if (task_combat.can(MonsterStrategy.Ignore)) {
-          runaway = outfit.equipFirst(runawaySources);
-          combat_resources.runawayWith(runaway);
-        }
-        if (task_combat.can(MonsterStrategy.IgnoreNoBanish)) {
-          if (runaway !== undefined && !runaway.banishes)
-            combat_resources.runawayNoBanishWith(runaway);
-          else
-            combat_resources.runawayNoBanishWith(
-              outfit.equipFirst(runawaySources.filter((source) => !source.banishes))
-            );
-        }
-
-        // Set up a free kill if needed, or if no free kills will ever be needed again
-        if (
-          task_combat.can(MonsterStrategy.KillFree) ||
-          (task_combat.can(MonsterStrategy.Kill) &&
-            !task_combat.boss &&
-            this.tasks.every((t) => t.completed() || !t.combat?.can(MonsterStrategy.KillFree)))
-        ) {
-          combat_resources.freekillWith(outfit.equipFirst(freekillSources));
-        }
-      }
+      combat_resources = this.allocateCombatResources(task, outfit, wanderers);
 
       // Set up more wanderers if delay is needed
       if (wanderers.length === 0 && this.hasDelay(task))
         wanderers.push(...outfit.equipUntilCapped(wandererSources));
 
-      // Prepare mood
-      applyEffects(outfit.modifier ?? "", task.effects || []);
-
       // Prepare full outfit
       if (!outfit.skipDefaults) {
         if (task_combat.boss) outfit.equip($familiar`Machine Elf`);
@@ -208,8 +290,18 @@ export class Engine {
       }
       outfit.dress();
 
-      // Prepare combat macro (after effects and outfit)
-      const combat = new BuiltCombatStrategy(task_combat, combat_resources, wanderers);
+      // Prepare mood, after dressing so that capped modifiers (e.g. -combat) are
+      // planned against the gear actually worn for this task
+      applyEffects(outfit.modifier ?? "", task.effects || []);
+
+      // Prepare combat macro (after effects and outfit), expecting HP to be restored
+      const [hp_target, mp_target] = restoreTargets(task);
+      const combat = new BuiltCombatStrategy(
+        task_combat,
+        combat_resources,
+        wanderers,
+        Math.max(myHp(), Math.min(hp_target, myMaxhp()))
+      );
       debug(combat.macro.toString(), "blue");
       setAutoAttack(0);
       combat.macro.save();
@@ -219,29 +311,48 @@ export class Engine {
       combat_resources.all().map((source) => source.prepare && source.prepare());
 
       // HP/MP upkeep
-      if (myHp() < myMaxhp() / 2) useSkill($skill`Cannelloni Cocoon`);
-      if (!have($effect`Super Skill`)) restoreMp(myMaxmp() < 200 ? myMaxmp() : 200);
+      restore(hp_target, mp_target);
     } else {
       // Prepare only as requested by the task
-      applyEffects(outfit.modifier ?? "", task.effects || []);
       outfit.dress();
+      applyEffects(outfit.modifier ?? "", task.effects || []);
     }
 
     // Do any task-specific preparation
     if (task.prepare) task.prepare();
+    const turns_before = myTurncount();
+    const meat_before = myMeat();
 
     // Do the task
-    if (typeof task.do === "function") {
-      task.do();
-    } else {
-      adv1(task.do, 0, "");
+    let failure: Failure | undefined = undefined;
+    try {
+      if (typeof task.do === "function") {
+        task.do();
+      } else {
+        adv1(task.do, 0, "");
+      }
+      runCombat();
+      while (inMultiFight()) runCombat();
+      if (choiceFollowsFight()) runChoice(-1);
+    } catch (error) {
+      failure = classifyFailure();
+      if (failure === undefined) throw error;
     }
-    runCombat();
-    while (inMultiFight()) runCombat();
-    if (choiceFollowsFight()) runChoice(-1);
-    if (task.post) task.post();
+    failure = failure ?? classifyFailure();
+    if (failure === undefined && task.post) task.post();
+
+    const completed = task.completed();
+    appendJournal({
+      task: task.name,
+      attempt: (this.attempts[task.name] ?? 0) + 1,
+      turns: [turns_before, myTurncount()],
+      meat: [meat_before, myMeat()],
+      wanderers: wanderers.map((source) => source.name),
+      resources: combat_resources.describe(),
+      outcome: have($effect`Beaten Up`) ? "lost" : completed ? "completed" : "not completed",
+    });
 
-    if (have($effect`Beaten Up`)) throw "Fight was lost; stop.";
+    if (failure !== undefined) this.recover(task, failure);
 
     // Mark the number of attempts (unless an ignored noncombat occured)
     if (!(task.name in this.attempts)) this.attempts[task.name] = 0;
@@ -251,9 +362,10 @@ export class Engine {
       ).length === ignored_noncombats_seen.length
     ) {
       this.attempts[task.name]++;
+      set(attempts_property, JSON.stringify(this.attempts));
     }
 
-    if (task.completed()) {
+    if (completed) {
       debug(`${task.name} completed!`, "blue");
     } else {
       debug(`${task.name} not completed!`, "blue");
@@ -261,6 +373,61 @@ export class Engine {
     }
   }
 
+  /**
+   * Recover from a failed action, so that the task can be tried again.
+   * Throws once the maximum number of recoveries has been used.
+   */
+  public recover(task: Task, failure: Failure): void {
+    if (this.recoveries >= this.max_recoveries)
+      throw `Task ${task.name} failed (${failure}) after ${this.recoveries} recoveries; stop.`;
+    this.recoveries++;
+    debug(
+      `Recovering from ${failure} in ${task.name} (${this.recoveries}/${this.max_recoveries})`,
+      "orange"
+    );
+    recover(failure);
+    if (failure === "lost fight" || failure === "out of MP") this.hardened.add(task.name);
+  }
+
+  public allocateCombatResources(
+    task: Task,
+    outfit: Outfit,
+    wanderers: WandererSource[]
+  ): CombatResourceAllocation {
+    const task_combat = task.combat ?? new CombatStrategy();
+    const combat_resources = new CombatResourceAllocation();
+    if (wanderers.length > 0) return combat_resources;
+
+    // Set up a banish if needed
+    const banishSources = unusedBanishes(task_combat.where(MonsterStrategy.Banish));
+    combat_resources.banishWith(outfit.equipFirst(banishSources));
+
+    // Set up a runaway if there are combats we do not care about
+    let runaway = undefined;
+    if (task_combat.can(MonsterStrategy.Ignore)) {
+      runaway = outfit.equipFirst(runawaySources);
+      combat_resources.runawayWith(runaway);
+    }
+    if (task_combat.can(MonsterStrategy.IgnoreNoBanish)) {
+      if (runaway !== undefined && !runaway.banishes) combat_resources.runawayNoBanishWith(runaway);
+      else
+        combat_resources.runawayNoBanishWith(
+          outfit.equipFirst(runawaySources.filter((source) => !source.banishes))
+        );
+    }
+
+    // Set up a free kill if needed, or if no free kills will ever be needed again
+    if (
+      task_combat.can(MonsterStrategy.KillFree) ||
+      (task_combat.can(MonsterStrategy.Kill) &&
+        !task_combat.boss &&
+        this.tasks.every((t) => t.completed() || !t.combat?.can(MonsterStrategy.KillFree)))
+    ) {
+      combat_resources.freekillWith(outfit.equipFirst(freekillSources));
+    }
+    return combat_resources;
+  }
+
   public check_limits(task: Task): void {
     const failureMessage = task.limit.message ? ` ${task.limit.message}` : "";
     if (task.limit.tries && this.attempts[task.name] >= task.limit.tries)
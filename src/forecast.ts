@@ -0,0 +1,94 @@
+import {
+  Location,
+  myAdventures,
+  myFullness,
+  myInebriety,
+  mySpleenUse,
+  numericModifier,
+} from "kolmafia";
+import { debug } from "./lib";
+import { args } from "./main";
+import { OutfitSpec, Task } from "./tasks/structure";
+
+// Typical adventures gained from each point of organ space
+const adventures_per_fullness = 5.5;
+const adventures_per_inebriety = 5.5;
+const adventures_per_spleen = 1.875;
+
+// The combat rate of zones without a known rate
+const default_combat_percent = 85;
+
+function outfitSpec(task: Task): OutfitSpec | undefined {
+  return typeof task.outfit === "function" ? task.outfit() : task.outfit;
+}
+
+/**
+ * Estimate the chance of a noncombat in the location, given the current combat rate modifier.
+ */
+export function noncombatChance(location: Location): number {
+  const base = location.combatPercent >= 0 ? location.combatPercent : default_combat_percent;
+  const combat = Math.min(100, Math.max(0, base + numericModifier("Combat Rate")));
+  return 1 - combat / 100;
+}
+
+/**
+ * Estimate the turns needed to complete the task.
+ * @param task The task to estimate.
+ * @param attempts The number of attempts already made at the task.
+ */
+export function estimateTurns(task: Task, attempts = 0): number {
+  if (task.completed() || task.freeaction || task.freecombat || task.noadventures) return 0;
+
+  let delay = 0;
+  let spent = attempts;
+  if (task.do instanceof Location) {
+    const delay_total = typeof task.delay === "function" ? task.delay() : task.delay ?? 0;
+    delay = Math.max(0, delay_total - task.do.turnsSpent);
+    if (task.limit.turns !== undefined) spent = task.do.turnsSpent;
+
+    // Tasks that run -combat are looking for a noncombat after the delay
+    if (outfitSpec(task)?.modifier?.includes("-combat")) {
+      const chance = noncombatChance(task.do);
+      if (chance > 0) return delay + Math.ceil(1 / chance);
+    }
+  }
+
+  // Otherwise expect to use up about half of a soft limit, or all of a hard limit
+  let expected = 1;
+  if (task.limit.soft !== undefined) expected = Math.ceil(task.limit.soft / 2);
+  else if (task.limit.tries !== undefined) expected = task.limit.tries;
+  else if (task.limit.turns !== undefined) expected = Math.ceil(task.limit.turns / 2);
+  return delay + Math.max(1, expected - spent);
+}
+
+/**
+ * Estimate the adventures still to be gained from the diet, up to the organ space allowed by the args.
+ */
+export function dietAdventures(): number {
+  return (
+    Math.max(0, args.stomach - myFullness()) * adventures_per_fullness +
+    Math.max(0, args.liver - myInebriety()) * adventures_per_inebriety +
+    Math.max(0, args.spleen - mySpleenUse()) * adventures_per_spleen
+  );
+}
+
+/**
+ * Print the estimated turns remaining against the adventures available,
+ * warning if the diet allowed by the args will not cover the difference.
+ */
+export function printForecast(tasks: Task[], attempts: { [task_name: string]: number }): void {
+  const remaining = tasks.reduce(
+    (total, task) => total + estimateTurns(task, attempts[task.name] ?? 0),
+    0
+  );
+  const diet = Math.floor(dietAdventures());
+  debug(
+    `Estimated turns remaining: ${remaining} vs ${myAdventures()} adventures available (+${diet} from diet)`,
+    "blue"
+  );
+  if (remaining > myAdventures() + diet)
+    debug(
+      `Diet/Consume will need more organ space than stomach ${args.stomach}, liver ${args.liver}, and spleen ${args.spleen} allow.`,
+      "red"
+    );
+}
@@ -0,0 +1,72 @@
+import { bufferToFile, fileToBuffer, todayToString } from "kolmafia";
+import { debug } from "./lib";
+
+/**
+ * A record of a single action taken by the engine.
+ * @member task The full name of the task executed.
+ * @member attempt Which attempt at this task the action was.
+ * @member turns Total turns played before and after the action.
+ * @member meat Meat on hand before and after the action.
+ * @member wanderers Names of the wanderer sources used.
+ * @member resources Names of the combat resources allocated, by purpose.
+ * @member outcome Whether the task was completed by the action.
+ */
+export type JournalEntry = {
+  task: string;
+  attempt: number;
+  turns: [number, number];
+  meat: [number, number];
+  wanderers: string[];
+  resources: { [purpose: string]: string };
+  outcome: "completed" | "not completed" | "lost";
+};
+
+export function journalFile(): string {
+  return `loopcasual_journal_${todayToString()}.json`;
+}
+
+export function readJournal(): JournalEntry[] {
+  const contents = fileToBuffer(journalFile());
+  if (contents === "") return [];
+  return JSON.parse(contents);
+}
+
+export function appendJournal(entry: JournalEntry): void {
+  const entries = readJournal();
+  entries.push(entry);
+  bufferToFile(JSON.stringify(entries), journalFile());
+}
+
+/**
+ * Total the turns spent on each quest.
+ * @returns A list of (quest, turns, actions) in the order quests were first seen.
+ */
+export function summarizeJournal(entries: JournalEntry[]): [string, number, number][] {
+  const summary = new Map<string, [number, number]>();
+  for (const entry of entries) {
+    const quest = entry.task.split("/")[0];
+    const [turns, actions] = summary.get(quest) ?? [0, 0];
+    summary.set(quest, [turns + entry.turns[1] - entry.turns[0], actions + 1]);
+  }
+  return Array.from(summary.entries()).map(([quest, [turns, actions]]) => [quest, turns, actions]);
+}
+
+export function printJournal(): void {
+  const entries = readJournal();
+  if (entries.length === 0) {
+    debug(`No actions recorded in ${journalFile()}.`);
+    return;
+  }
+
+  debug(`Turns spent per quest today (from ${journalFile()}):`, "blue");
+  let total = 0;
+  for (const [quest, turns, actions] of summarizeJournal(entries)) {
+    debug(`  ${quest}: ${turns} turns over ${actions} actions`);
+    total += turns;
+  }
+  debug(`  Total: ${total} turns over ${entries.length} actions`, "blue");
+
+  const lost = entries.filter((entry) => entry.outcome === "lost");
+  for (const entry of lost)
+    debug(`  Lost a fight in ${entry.task} (attempt ${entry.attempt})`, "red");
+}
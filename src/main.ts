@@ -3,30 +3,31 @@ import {
   gametimeToInt,
   myAdventures,
   myClosetMeat,
-  myLevel,
+  myDaycount,
   myMeat,
   print,
   takeCloset,
   turnsPlayed,
 } from "kolmafia";
-import { all_tasks, level_tasks, organ_tasks, quest_tasks } from "./tasks/all";
-import { prioritize } from "./route";
-import { Engine } from "./engine";
+import { Task } from "./tasks/structure";
+import { findGoal, goalCompleted, goalTasks } from "./tasks/all";
+import { loadRouteProfile, prioritize } from "./route";
+import { Engine, matchTasks, resetAttempts, withDependencies } from "./engine";
+import { planRoute } from "./plan";
+import { printJournal } from "./journal";
 import { convertMilliseconds, debug } from "./lib";
-import { $skill, get, have, set } from "libram";
-import { step, Task } from "./tasks/structure";
+import { get, set } from "libram";
 import { Args } from "./args";
+import { validate } from "./validate";
+import { printSpending, setMeatBudget } from "./spending";
+import { endOfDay } from "./rollover";
+import { checkReadiness } from "./check";
+import { printForecast } from "./forecast";
+import { explain, printWhy } from "./why";
 
 export const args = Args.create("loopcasual", "A script to complete casual runs.", {
   goal: Args.string({
-    help: "Which tasks to perform.",
-    options: [
-      ["all", "Level up, complete all quests, and get your steel organ."],
-      ["level", "Level up only."],
-      ["quests", "Complete all quests only."],
-      ["organ", "Get your steel organ only."],
-      ["!organ", "Level up and complete all quests only."],
-    ],
+    help: "Which tasks to perform: all (level up, complete all quests, and get your steel organ), level, quests, organ, !organ (all but the organ), war, or keys. Otherwise, a comma-separated list of quests and tasks to complete along with their dependencies, e.g. Crypt,War or Keys/Daily Dungeon.",
     default: "all",
   }),
   stomach: Args.number({
@@ -46,6 +47,13 @@ export const args = Args.create("loopcasual", "A script to complete casual runs.
     setting: "valueOfAdventure",
     default: 6500,
   }),
+  budget: Args.number({
+    help: "Maximum meat to spend on purchases today, if given. The script stops before any purchase that would exceed it.",
+  }),
+  recoveries: Args.number({
+    help: "Number of failures (e.g. lost fights) to recover from before stopping.",
+    default: 2,
+  }),
   actions: Args.number({
     help: "Maximum number of actions to perform, if given. Can be used to execute just a few steps at a time.",
   }),
@@ -57,6 +65,43 @@ export const args = Args.create("loopcasual", "A script to complete casual runs.
     help: "Use pocket professor as one of the free leveling resources. This uses up some copiers, but may help to level.",
     default: false,
   }),
+  skip: Args.string({
+    help: "Comma-separated list of tasks (e.g. Keys/Daily Dungeon) or quests (e.g. Manor/*) to never perform. Skipped tasks are treated as completed for the purposes of dependencies.",
+  }),
+  only: Args.string({
+    help: "Comma-separated list of tasks or quests (e.g. Manor/*) to perform, along with any tasks they depend on. All other tasks are skipped.",
+  }),
+  route: Args.string({
+    help: "Routing profile to use. Overrides to the default routing are loaded from loopcasual_route_[profile].txt in your KoLmafia data directory; each line is one of 'pin [task]', 'move [task] before|after [task]', or 'remove [task]'.",
+  }),
+  plan: Args.flag({
+    help: "Print the full planned route, including wanderers and combat resources, without executing any tasks.",
+    default: false,
+    setting: "",
+  }),
+  journal: Args.flag({
+    help: "Summarize the turns spent per quest today, from the run journal, and exit.",
+    default: false,
+    setting: "",
+  }),
+  resetattempts: Args.string({
+    help: 'Clear the attempts recorded today for the given task (e.g. "Crypt/Nook"), or for all tasks with "all", and exit.',
+    setting: "",
+  }),
+  why: Args.string({
+    help: 'Explain why the given tasks (e.g. "Crypt/Nook" or "Manor/*") are not available, including their blocked dependencies, and exit.',
+    setting: "",
+  }),
+  validate: Args.flag({
+    help: "Check the task graph and routing (including the routing profile, if given) for problems, print a report, and exit.",
+    default: false,
+    setting: "",
+  }),
+  check: Args.flag({
+    help: "Report which resources and leveling tasks are available to this account, what is missing, and its impact on the run, and exit.",
+    default: false,
+    setting: "",
+  }),
 });
 export function main(command?: string): void {
   Args.fill(args, command);
@@ -64,42 +109,54 @@ export function main(command?: string): void {
     Args.showHelp(args);
     return;
   }
+  if (args.validate) {
+    validate(args.route ? loadRouteProfile(args.route) : undefined);
+    return;
+  }
+  if (args.journal) {
+    printJournal();
+    return;
+  }
+  if (args.resetattempts !== undefined) {
+    resetAttempts(args.resetattempts);
+    return;
+  }
 
   if (runComplete()) {
     print("Casual complete!", "purple");
     return;
   }
 
+  const [tasks, skipped] = selectTasks();
+
+  if (args.why !== undefined) {
+    printWhy(new Engine(tasks, skipped), matchTasks(tasks, args.why));
+    return;
+  }
+  if (args.check) {
+    checkReadiness(tasks.filter((task) => !skipped.has(task.name)));
+    return;
+  }
+  if (args.plan) {
+    planRoute(tasks, skipped);
+    return;
+  }
+
   const time_property = "_loop_casual_first_start";
   const set_time_now = get(time_property, -1) === -1;
   if (set_time_now) set(time_property, gametimeToInt());
+  const turns_property = "_loop_casual_start_turns";
+  if (get(turns_property, -1) === -1) set(turns_property, turnsPlayed());
 
   if (myMeat() > 2000000) {
     print("You have too much meat; closeting some during execution.");
     cliExecute(`closet put ${myMeat() - 2000000} meat`);
   }
 
-  // Select which tasks to perform
-  let tasks: Task[] = [];
-  switch (args.goal) {
-    case "all":
-      tasks = prioritize(all_tasks());
-      break;
-    case "level":
-      tasks = prioritize(level_tasks(), true);
-      break;
-    case "quests":
-      tasks = prioritize(quest_tasks(), true);
-      break;
-    case "organ":
-      tasks = prioritize(organ_tasks(), true);
-      break;
-    case "!organ":
-      tasks = prioritize([...level_tasks(), ...quest_tasks()], true);
-      break;
-  }
-
-  const engine = new Engine(tasks);
+  setMeatBudget(args.budget);
+  const engine = new Engine(tasks, skipped, args.recoveries);
+  let finished_unskipped = false;
+  let finished_day = false;
   try {
     // Do not bother to set properties if there are no tasks remaining
     if (tasks.find((task) => !task.completed() && (task.ready?.() ?? true)) !== undefined) {
@@ -107,6 +164,9 @@ export function main(command?: string): void {
       cliExecute("ccs loopcasual");
     }
 
+    const unskipped = tasks.filter((task) => !skipped.has(task.name));
+    printForecast(unskipped, engine.attempts);
+
     let actions_left = args.actions ?? Number.MAX_VALUE;
     // eslint-disable-next-line no-constant-condition
     while (true) {
@@ -126,29 +186,52 @@ export function main(command?: string): void {
       // Do the next task.
       if (next[1] !== undefined) engine.execute(next[0], next[1]);
       else engine.execute(next[0]);
+
+      // Update the forecast whenever a quest is finished
+      const quest = next[0].name.split("/")[0];
+      const in_quest = unskipped.filter((task) => task.name.startsWith(`${quest}/`));
+      if (in_quest.every((task) => task.completed())) printForecast(unskipped, engine.attempts);
     }
 
     // Script is done; ensure we have finished
     takeCloset(myClosetMeat());
 
-    const remaining_tasks = tasks.filter((task) => !task.completed());
-    if (!runComplete()) {
+    const skipped_tasks = tasks.filter((task) => !task.completed() && skipped.has(task.name));
+    if (skipped_tasks.length > 0) {
+      debug("Skipped tasks:", "orange");
+      for (const task of skipped_tasks) debug(`${task.name}`, "orange");
+    }
+
+    const remaining_tasks = tasks.filter((task) => !task.completed() && !skipped.has(task.name));
+    if (!runComplete() && remaining_tasks.length === 0 && skipped_tasks.length > 0) {
+      finished_unskipped = true;
+    } else if (!runComplete()) {
       debug("Remaining tasks:", "red");
       for (const task of remaining_tasks) {
-        if (!task.completed()) debug(`${task.name}`, "red");
+        if (!task.completed()) debug(explain(engine, task), "red");
       }
       if (myAdventures() === 0) {
-        throw `Ran out of adventures. Consider setting higher stomach, liver, and spleen usage, or a higher voa.`;
+        print(
+          "Ran out of adventures. Consider setting higher stomach, liver, and spleen usage, or a higher voa.",
+          "red"
+        );
+        endOfDay();
+        finished_day = true;
       } else {
         throw `Unable to find available task, but the run is not complete.`;
       }
     }
   } finally {
     engine.propertyManager.resetAll();
+    printSpending();
   }
 
-  print("Casual complete!", "purple");
-  print(`   Adventures used: ${turnsPlayed()}`, "purple");
+  if (finished_day)
+    print(`Day ${myDaycount()} complete; run again tomorrow to continue.`, "purple");
+  else if (finished_unskipped) print("Finished all tasks that were not skipped.", "purple");
+  else print("Casual complete!", "purple");
+  print(`   Adventures used: ${turnsPlayed()} over ${myDaycount()} days`, "purple");
+  print(`   Adventures used today: ${turnsPlayed() - get(turns_property, 0)}`, "purple");
   print(`   Adventures remaining: ${myAdventures()}`, "purple");
   if (set_time_now)
     print(
@@ -164,21 +247,24 @@ export function main(command?: string): void {
     );
 }
 
-function runComplete(): boolean {
-  switch (args.goal) {
-    case "all":
-      return (
-        step("questL13Final") === 999 && have($skill`Liver of Steel`) && myLevel() >= args.levelto
-      );
-    case "level":
-      return myLevel() >= args.levelto;
-    case "quests":
-      return step("questL13Final") === 999;
-    case "organ":
-      return have($skill`Liver of Steel`);
-    case "!organ":
-      return step("questL13Final") === 999 && myLevel() >= args.levelto;
-    default:
-      throw `Unknown goal ${args.goal}`;
+/**
+ * Select the tasks to perform according to the args, in priority order.
+ * @returns The tasks, along with the names of those to skip.
+ */
+export function selectTasks(): [Task[], Set<string>] {
+  const overrides = args.route ? loadRouteProfile(args.route) : undefined;
+  const goal = findGoal(args.goal);
+  const tasks = prioritize(goalTasks(goal), !goal.strict, overrides);
+
+  const skipped = args.skip ? matchTasks(tasks, args.skip) : new Set<string>();
+  if (args.only) {
+    // Unlike skipped tasks, unfinished dependencies must still be done first
+    const only = withDependencies(tasks, matchTasks(tasks, args.only));
+    for (const task of tasks) if (!only.has(task.name)) skipped.add(task.name);
   }
+  return [tasks, skipped];
+}
+
+function runComplete(): boolean {
+  return goalCompleted(findGoal(args.goal));
 }
@@ -2,16 +2,19 @@ import {
   cliExecute,
   Effect,
   getWorkshed,
-  myClass,
+  Item,
+  mpCost,
   myEffects,
   myMaxmp,
   myPrimestat,
+  numericModifier,
+  retrievePrice,
+  toItem,
   toSkill,
 } from "kolmafia";
 import {
   $class,
   $effect,
-  $effects,
   $item,
   $skill,
   $stat,
@@ -19,54 +22,235 @@ import {
   ensureEffect,
   get,
   have,
+  set,
   uneffect,
 } from "libram";
+import { debug } from "./lib";
+import { args } from "./main";
+import { Resource } from "./resources";
+import { meatPerMp } from "./restore";
+import { canSpend, obtain } from "./spending";
 
-function getRelevantEffects(): { [modifier: string]: Effect[] } {
-  const result = {
-    "-combat": $effects`Smooth Movements, The Sonata of Sneakiness`,
-    "+combat": $effects`Carlweather's Cantata of Confrontation, Musk of the Moose`,
-    "": $effects`Empathy, Leash of Linguini, Astral Shell, Elemental Saucesphere`,
-    "fam weight": $effects`Chorale of Companionship`,
-    init: $effects`Walberg's Dim Bulb, Springy Fusilli`,
-    ML: $effects`Ur-Kel's Aria of Annoyance, Pride of the Puffin, Drescher's Annoying Noise`,
-    item: $effects`Fat Leon's Phat Loot Lyric, Singer's Faithful Ocelot`,
-    meat: $effects`Polka of Plenty`,
-    mainstat: $effects`Big, Tomato Power, Trivia Master, Gr8ness, Carol of the Hells, Carol of the Thrills`,
-    muscle: $effects`Go Get 'Em\, Tiger!, Phorcefullness, Incredibly Hulking`,
-    mysticality: $effects`Glittering Eyelashes, Mystically Oiled, On the Shoulders of Giants`,
-    moxie: $effects`Butt-Rock Hair, Superhuman Sarcasm, Cock of the Walk`,
+/**
+ * A way to get an effect for a task.
+ * @member effect The effect gained.
+ * @member helps The mood keywords (see moodKeywords) the effect helps with.
+ * @member cost The meat spent by one use, valuing MP at the price of restoring it.
+ * @member do Gain the effect.
+ */
+export interface MoodSource extends Resource {
+  effect: Effect;
+  helps: string[];
+  cost: () => number;
+  do: () => void;
+}
+
+function skillMood(effect: Effect, helps: string[]): MoodSource {
+  const skill = toSkill(effect);
+  return {
+    name: effect.name,
+    effect: effect,
+    helps: helps,
+    available: () => have(skill),
+    cost: () => mpCost(skill) * meatPerMp(),
+    do: () => ensureEffect(effect),
+  };
+}
+
+// Potions are found through the default way to get the effect, e.g. "use 1 hair spray"
+function effectPotion(effect: Effect): Item {
+  return toItem(effect.default.replace(/^use \d+ /, ""));
+}
+
+function potionMood(effect: Effect, helps: string[]): MoodSource {
+  const potion = () => effectPotion(effect);
+  return {
+    name: effect.name,
+    effect: effect,
+    helps: helps,
+    available: () =>
+      potion() !== $item`none` && (have(potion()) || canSpend(retrievePrice(potion()))),
+    cost: () => retrievePrice(potion()),
+    do: () => {
+      if (!obtain(potion())) throw `Unable to obtain ${potion()}`;
+      ensureEffect(effect);
+    },
   };
+}
+
+// Limited daily uses are worth saving for later tasks, so value them above a typical skill cast
+const daily_use_cost = 1000;
+
+function dailyMood(effect: Effect, helps: string[], available: () => boolean): MoodSource {
+  return {
+    name: effect.name,
+    effect: effect,
+    helps: helps,
+    available: available,
+    cost: () => daily_use_cost,
+    do: () => ensureEffect(effect),
+  };
+}
+
+export const moodSources: MoodSource[] = [
+  skillMood($effect`Smooth Movements`, ["-combat"]),
+  skillMood($effect`The Sonata of Sneakiness`, ["-combat"]),
+  dailyMood(
+    $effect`Feeling Lonely`,
+    ["-combat"],
+    () => have($skill`Emotionally Chipped`) && get("_feelLonelyUsed") < 3
+  ),
+  dailyMood($effect`Silent Running`, ["-combat"], () => !get("_olympicSwimmingPool")),
+  skillMood($effect`Carlweather's Cantata of Confrontation`, ["+combat"]),
+  skillMood($effect`Musk of the Moose`, ["+combat"]),
+  skillMood($effect`Empathy`, ["always"]),
+  skillMood($effect`Leash of Linguini`, ["always"]),
+  skillMood($effect`Astral Shell`, ["always"]),
+  skillMood($effect`Elemental Saucesphere`, ["always"]),
+  skillMood($effect`Chorale of Companionship`, ["familiar weight"]),
+  skillMood($effect`Walberg's Dim Bulb`, ["init"]),
+  skillMood($effect`Springy Fusilli`, ["init"]),
+  skillMood($effect`Silent Hunting`, ["init"]),
+  skillMood($effect`Nearly Silent Hunting`, ["init"]),
+  skillMood($effect`Ur-Kel's Aria of Annoyance`, ["ml"]),
+  skillMood($effect`Pride of the Puffin`, ["ml"]),
+  skillMood($effect`Drescher's Annoying Noise`, ["ml"]),
+  skillMood($effect`Fat Leon's Phat Loot Lyric`, ["item"]),
+  skillMood($effect`Singer's Faithful Ocelot`, ["item"]),
+  skillMood($effect`Polka of Plenty`, ["meat"]),
+  skillMood($effect`Big`, ["mainstat"]),
+  skillMood($effect`Carol of the Hells`, ["mainstat"]),
+  skillMood($effect`Carol of the Thrills`, ["mainstat"]),
+  potionMood($effect`Tomato Power`, ["mainstat"]),
+  potionMood($effect`Trivia Master`, ["mainstat"]),
+  potionMood($effect`Gr8ness`, ["mainstat"]),
+  dailyMood($effect`That's Just Cloud-Talk, Man`, ["mainstat"], () =>
+    get("getawayCampsiteUnlocked")
+  ),
+  dailyMood($effect`Having a Ball!`, ["mainstat"], () => !get("_ballpit")),
+  dailyMood($effect`Favored by Lyle`, ["mainstat"], () => !get("_lyleFavored")),
+  dailyMood($effect`Starry-Eyed`, ["mainstat"], () => !get("telescopeLookedHigh")),
+  dailyMood(
+    $effect`Broad-Spectrum Vaccine`,
+    ["mainstat"],
+    () => get("spacegateAlways") && get("spacegateVaccine2") && !get("_spacegateVaccine")
+  ),
+  dailyMood(
+    $effect`Feeling Excited`,
+    ["mainstat"],
+    () => have($skill`Emotionally Chipped`) && get("_feelExcitementUsed") < 3
+  ),
+  dailyMood(
+    $effect`Total Protonic Reversal`,
+    ["mainstat"],
+    () => have($item`protonic accelerator pack`) && !get("_streamsCrossed")
+  ),
+  potionMood($effect`Go Get 'Em\, Tiger!`, ["muscle"]),
+  potionMood($effect`Phorcefullness`, ["muscle"]),
+  potionMood($effect`Incredibly Hulking`, ["muscle"]),
+  potionMood($effect`Glittering Eyelashes`, ["mysticality"]),
+  potionMood($effect`Mystically Oiled`, ["mysticality"]),
+  potionMood($effect`On the Shoulders of Giants`, ["mysticality"]),
+  potionMood($effect`Butt-Rock Hair`, ["moxie"]),
+  potionMood($effect`Superhuman Sarcasm`, ["moxie"]),
+  potionMood($effect`Cock of the Walk`, ["moxie"]),
+];
 
-  // Glitches if given above
-  result["mainstat"].push($effect`That's Just Cloud-Talk, Man`);
-
-  // Class-specific
-  if (myClass() === $class`Seal Clubber`) result["init"].push($effect`Silent Hunting`);
-  else result["init"].push($effect`Nearly Silent Hunting`);
-
-  // One-per-day
-  if (!get("_ballpit")) result["mainstat"].push($effect`Having a Ball!`);
-  if (!get("_lyleFavored")) result["mainstat"].push($effect`Favored by Lyle`);
-  if (!get("telescopeLookedHigh")) result["mainstat"].push($effect`Starry-Eyed`);
-  if (get("spacegateAlways") && get("spacegateVaccine2") && !get("_spacegateVaccine"))
-    result["mainstat"].push($effect`Broad-Spectrum Vaccine`);
-  if (have($skill`Emotionally Chipped`) && get("_feelExcitementUsed") < 3)
-    result["mainstat"].push($effect`Feeling Excited`);
-  if (have($item`protonic accelerator pack`) && !get("_streamsCrossed"))
-    result["mainstat"].push($effect`Total Protonic Reversal`);
-
-  // Noncombat buffs
-  if (get("_feelLonelyUsed") < 3 || have($effect`Feeling Lonely`))
-    result["-combat"].push($effect`Feeling Lonely`);
-  if (!get("_olympicSwimmingPool") || have($effect`Silent Running`))
-    result["-combat"].push($effect`Silent Running`);
-  // TODO: Silence of the God Lobster?
-  // TODO: Snow cleats?
+// Rough meat cost of the fuel for one drive
+const asdon_drive_cost = 1500;
 
+function asdonMood(effect: Effect, helps: string[]): MoodSource {
+  return {
+    name: effect.name,
+    effect: effect,
+    helps: helps,
+    available: () => getWorkshed() === $item`Asdon Martin keyfob`,
+    cost: () => asdon_drive_cost,
+    do: () => {
+      if (!AsdonMartin.drive(effect)) throw `Unable to drive with ${effect}`;
+    },
+  };
+}
+
+// Only one driving style is active at a time, so these are never shrugged
+const asdon_sources = [
+  asdonMood(AsdonMartin.Driving.Stealthily, ["-combat"]),
+  asdonMood(AsdonMartin.Driving.Obnoxiously, ["+combat"]),
+];
+
+// Each oil sets the other stats to equal the class mainstat
+const oils = new Map([
+  [$stat`Muscle`, potionMood($effect`Stabilizing Oiliness`, ["mysticality", "moxie"])],
+  [$stat`Mysticality`, potionMood($effect`Expert Oiliness`, ["muscle", "moxie"])],
+  [$stat`Moxie`, potionMood($effect`Slippery Oiliness`, ["muscle", "mysticality"])],
+]);
+
+/**
+ * Keywords whose modifier stops helping past a cap, with the modifier and its cap.
+ * Only as many effects are used as are needed to reach the cap.
+ */
+const capped_keywords: { [keyword: string]: [string, number] } = {
+  "-combat": ["Combat Rate", -25],
+  "+combat": ["Combat Rate", 25],
+};
+
+// Effects for keywords without a cap are only worth a fraction of an adventure
+function maxUncappedCost(): number {
+  return args.voa / 5;
+}
+
+const keyword_aliases: { [term: string]: string } = {
+  "fam weight": "familiar weight",
+  initiative: "init",
+  "monster level": "ml",
+  myst: "mysticality",
+  combat: "+combat",
+  "item drop": "item",
+  "meat drop": "meat",
+};
+
+/**
+ * Find the mood keywords asked for by a maximizer modifier. Each term is
+ * matched exactly, ignoring its weight and any min or max, so that e.g.
+ * "4exp" is "exp" and "item 500max" is "item".
+ */
+export function moodKeywords(modifier: string): Set<string> {
+  const result = new Set<string>(["always"]);
+  for (const raw_term of modifier.split(",")) {
+    const term = raw_term
+      .trim()
+      .toLowerCase()
+      .replace(/^[\d.]+\s*/, "")
+      .replace(/\s+-?[\d.]+\s*(max|min)$/, "");
+    if (term === "") continue;
+    result.add(keyword_aliases[term] ?? term);
+  }
+
+  // Stat keywords include the stat that matters for the class
+  if (result.has("mainstat")) result.add(myPrimestat().toString().toLowerCase());
+  if (result.has("mp")) result.add("mysticality");
   return result;
 }
 
+// The amount that an effect moves the modifier of a capped keyword towards its cap
+function towardsCap(keyword: string, effect: Effect): number {
+  const [modifier_name, cap] = capped_keywords[keyword];
+  return Math.sign(cap) * numericModifier(effect, modifier_name);
+}
+
+/**
+ * Check if the modifier of a capped keyword (e.g. -combat) will be at its cap
+ * once the chosen effects are active.
+ * @param extra Any further amount towards the cap from other sources.
+ */
+export function capReached(keyword: string, chosen: MoodSource[], extra = 0): boolean {
+  const [modifier_name, cap] = capped_keywords[keyword];
+  const planned = chosen
+    .filter((source) => source.helps.includes(keyword))
+    .reduce((total, source) => total + towardsCap(keyword, source.effect), extra);
+  return Math.sign(cap) * numericModifier(modifier_name) + planned >= Math.abs(cap);
+}
+
 function isSong(effect: Effect) {
   return toSkill(effect).class === $class`Accordion Thief` && toSkill(effect).buff;
 }
@@ -75,93 +259,181 @@ function maxSongs(): number {
   return have($skill`Mariachi Memory`) ? 4 : 3;
 }
 
+// Value of keeping each song active for later tasks, when not useful for the current one
+const song_values: { [song: string]: number } = {
+  "Fat Leon's Phat Loot Lyric": 4,
+  "Polka of Plenty": 3,
+  "Chorale of Companionship": 2,
+  "Ur-Kel's Aria of Annoyance": 1,
+};
+
+// Songs that cancel each other out, so should never be active together
+const conflicting_songs: [Effect, Effect][] = [
+  [$effect`The Sonata of Sneakiness`, $effect`Carlweather's Cantata of Confrontation`],
+];
+
+/**
+ * Decide which AT songs to have active, within the song slots.
+ *
+ * Songs useful for the task are kept first, in the order given, followed by
+ * active songs that are valuable in general. Useful songs that do not fit are
+ * skipped rather than failing the task.
+ * @param wanted The songs useful for the task, most important first.
+ * @returns The songs to keep or gain, and the active songs to remove.
+ */
+export function planSongs(wanted: Effect[]): [Effect[], Effect[]] {
+  const active = Object.keys(myEffects())
+    .map((name) => Effect.get(name))
+    .filter(isSong);
+  const others = active
+    .filter((song) => !wanted.some((effect) => effect.name === song.name))
+    .sort((a, b) => (song_values[b.name] ?? 0) - (song_values[a.name] ?? 0));
+
+  const keep: Effect[] = [];
+  const conflicts = (song: Effect) =>
+    conflicting_songs.some((pair) =>
+      keep.some(
+        (kept) =>
+          (pair[0].name === song.name && pair[1].name === kept.name) ||
+          (pair[1].name === song.name && pair[0].name === kept.name)
+      )
+    );
+  for (const song of [...wanted, ...others]) {
+    if (keep.some((kept) => kept.name === song.name) || conflicts(song)) continue;
+    if (keep.length < maxSongs()) keep.push(song);
+  }
+
+  const skipped = wanted.filter((song) => !keep.includes(song));
+  if (skipped.length > 0)
+    debug(`Not enough song slots for ${skipped.map((song) => song.name).join(", ")}`, "orange");
+  const remove = active.filter((song) => !keep.some((kept) => kept.name === song.name));
+  return [keep, remove];
+}
+
 function shrug(effects: Effect[]) {
   for (const effect of effects) {
     if (have(effect)) uneffect(effect);
   }
 }
 
-export function applyEffects(modifier: string, required: Effect[]): void {
-  const relevantEffects = getRelevantEffects();
+/**
+ * Choose the effects to gain for a maximizer modifier.
+ *
+ * For capped keywords (e.g. -combat), the cheapest effects per point of the
+ * modifier are chosen until the cap is reached, counting what we already have.
+ * For other keywords, every effect is chosen that costs at most a fifth of the
+ * value of an adventure (see the voa argument).
+ * @param modifier The maximizer modifier of the task.
+ * @param required Effects that the task requires regardless of cost.
+ * @returns The sources of the effects to gain, not including those already active.
+ */
+export function planMood(modifier: string, required: Effect[] = []): MoodSource[] {
+  const keywords = moodKeywords(modifier);
+  const sources = [...moodSources, ...asdon_sources];
+  const oil = oils.get(myPrimestat());
+  if (oil) sources.push(oil);
+  const candidates = sources.filter(
+    (source) =>
+      source.helps.some((keyword) => keywords.has(keyword)) &&
+      !have(source.effect) &&
+      !required.includes(source.effect) &&
+      source.available()
+  );
 
-  const useful_effects = [];
-  useful_effects.push(...required);
-  for (const key in relevantEffects) {
-    if (modifier.includes(key)) {
-      useful_effects.push(...relevantEffects[key]);
+  const chosen: MoodSource[] = [];
+  let songs_left = maxSongs() - required.filter(isSong).length;
+  const choose = (source: MoodSource): boolean => {
+    if (chosen.includes(source)) return true;
+    if (isSong(source.effect)) {
+      if (songs_left <= 0) return false;
+      songs_left--;
     }
-  }
+    chosen.push(source);
+    return true;
+  };
 
-  if (modifier.includes("MP")) {
-    useful_effects.push(...relevantEffects["mysticality"]);
+  for (const keyword of keywords) {
+    const helping = candidates.filter((source) => source.helps.includes(keyword));
+    if (keyword in capped_keywords) {
+      const amount = (source: MoodSource) => towardsCap(keyword, source.effect);
+      const useful = helping
+        .filter((source) => amount(source) > 0)
+        .sort((a, b) => a.cost() / amount(a) - b.cost() / amount(b));
+      for (const source of useful) {
+        if (capReached(keyword, chosen)) break;
+        choose(source);
+      }
+    } else {
+      helping
+        .filter((source) => source.cost() <= maxUncappedCost())
+        .sort((a, b) => a.cost() - b.cost())
+        .forEach(choose);
+    }
   }
+  return chosen;
+}
 
-  // Handle mainstat buffing and equalizing
-  switch (myPrimestat()) {
-    case $stat`Muscle`:
-      if (modifier.includes("mainstat")) useful_effects.push(...relevantEffects["muscle"]);
-      if (modifier.includes("moxie") || modifier.includes("myst"))
-        useful_effects.push($effect`Stabilizing Oiliness`);
-      break;
-    case $stat`Mysticality`:
-      if (modifier.includes("mainstat")) useful_effects.push(...relevantEffects["mysticality"]);
-      if (modifier.includes("moxie") || modifier.includes("muscle"))
-        useful_effects.push($effect`Expert Oiliness`);
-      break;
-    case $stat`Moxie`:
-      if (modifier.includes("mainstat")) useful_effects.push(...relevantEffects["moxie"]);
-      if (modifier.includes("muscle") || modifier.includes("myst"))
-        useful_effects.push($effect`Slippery Oiliness`);
-      break;
-  }
+export function applyEffects(modifier: string, required: Effect[]): void {
+  const keywords = moodKeywords(modifier);
+  const chosen = planMood(modifier, required);
 
   // Remove wrong combat effects
-  if (modifier.includes("+combat")) shrug(relevantEffects["-combat"]);
-  if (modifier.includes("-combat")) shrug(relevantEffects["+combat"]);
+  const helping = (keyword: string) =>
+    moodSources.filter((source) => source.helps.includes(keyword)).map((source) => source.effect);
+  if (keywords.has("+combat")) shrug(helping("-combat"));
+  if (keywords.has("-combat")) shrug(helping("+combat"));
 
+  const effects = [...required];
   if (myMaxmp() < 27 && have($skill`The Magical Mojomuscular Melody`)) {
-    useful_effects.unshift($effect`The Magical Mojomuscular Melody`);
+    effects.unshift($effect`The Magical Mojomuscular Melody`);
   }
 
-  // Make room for songs
-  const songs = [];
-  for (const effect of useful_effects) {
-    if (isSong(effect)) songs.push(effect);
-  }
-  if (songs.length > maxSongs()) throw "Too many AT songs.";
-  if (songs.length > 0) {
-    const extra_songs = [];
-    for (const effect_name of Object.keys(myEffects())) {
-      const effect = Effect.get(effect_name);
-      if (isSong(effect) && !songs.includes(effect)) {
-        extra_songs.push(effect);
-      }
-    }
-    while (songs.length + extra_songs.length > maxSongs()) {
-      const to_remove = extra_songs.pop();
-      if (to_remove === undefined) break;
-      else uneffect(to_remove);
-    }
-  }
+  // Make room for songs, skipping any that do not fit
+  const [songs, extra_songs] = planSongs(
+    [...effects, ...chosen.map((source) => source.effect)].filter(isSong)
+  );
+  for (const song of extra_songs) uneffect(song);
+  const fits = (effect: Effect) => !isSong(effect) || songs.includes(effect);
 
-  // Use horsery
+  // Use horsery, if the effects do not reach the cap
   if (get("horseryAvailable")) {
-    if (modifier.includes("-combat") && get("_horsery") !== "dark horse") {
+    if (
+      keywords.has("-combat") &&
+      get("_horsery") !== "dark horse" &&
+      !capReached("-combat", chosen)
+    ) {
       cliExecute("horsery dark");
     }
     // TODO: +combat?
   }
 
-  // Use asdon martin
-  if (getWorkshed() === $item`Asdon Martin keyfob`) {
-    if (modifier.includes("-combat")) AsdonMartin.drive(AsdonMartin.Driving.Stealthily);
-    else if (modifier.includes("+combat")) AsdonMartin.drive(AsdonMartin.Driving.Obnoxiously);
-    else if (modifier.includes("init")) AsdonMartin.drive(AsdonMartin.Driving.Quickly);
-    else if (modifier.includes("item")) AsdonMartin.drive(AsdonMartin.Driving.Observantly);
+  // Use asdon martin, if not driving for combat rate
+  if (
+    getWorkshed() === $item`Asdon Martin keyfob` &&
+    !keywords.has("-combat") &&
+    !keywords.has("+combat")
+  ) {
+    if (keywords.has("init")) AsdonMartin.drive(AsdonMartin.Driving.Quickly);
+    else if (keywords.has("item")) AsdonMartin.drive(AsdonMartin.Driving.Observantly);
   }
 
-  // Apply all relevant effects
-  for (const effect of useful_effects) {
-    ensureEffect(effect);
+  // Apply all relevant effects. Potions are bought through obtain, so that
+  // the meat spent is tracked, rather than by mafia directly from the mall.
+  const auto_mall = get("autoSatisfyWithMall");
+  set("autoSatisfyWithMall", false);
+  try {
+    for (const effect of effects.filter(fits)) {
+      const potion = effectPotion(effect);
+      if (!have(effect) && potion !== $item`none` && !obtain(potion))
+        throw `Unable to obtain ${potion}`;
+      ensureEffect(effect);
+    }
+    const gaining = chosen.filter((source) => fits(source.effect));
+    if (gaining.length > 0) debug(`Mood: ${gaining.map((source) => source.name).join(", ")}`);
+    for (const source of gaining) {
+      source.do();
+    }
+  } finally {
+    set("autoSatisfyWithMall", auto_mall);
   }
 }
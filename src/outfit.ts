@@ -1,8 +1,5 @@
 import {
-  cliExecute,
   equip,
-  equippedAmount,
-  equippedItem,
   Familiar,
   Item,
   myBasestat,
@@ -12,14 +9,29 @@ import {
   useFamiliar,
   weaponHands,
 } from "kolmafia";
-import { $familiar, $item, $skill, $slot, $slots, $stat, get, have, Requirement } from "libram";
+import { $familiar, $item, $skill, $slot, $stat, get, have, Requirement } from "libram";
 import { Task } from "./tasks/structure";
 import { canChargeVoid, Resource } from "./resources";
 
+// Orderings of a handful of items; larger sets are only tried in the given order
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1 || items.length > 5) return [items];
+  const result: T[][] = [];
+  items.forEach((item, index) => {
+    const rest = [...items.slice(0, index), ...items.slice(index + 1)];
+    for (const order of permutations(rest)) result.push([item, ...order]);
+  });
+  return result;
+}
+
+// Small enough that any gear helping the modifier is preferred over the default accessories
+const default_bonus = 3;
+
 // Adapted from phccs
 export class Outfit {
   equips: Map<Slot, Item> = new Map<Slot, Item>();
   accesories: Item[] = [];
+  bonuses: Map<Item, number> = new Map<Item, number>();
   skipDefaults = false;
   familiar?: Familiar;
   modifier?: string;
@@ -27,7 +39,10 @@ export class Outfit {
 
   equip(item?: Item | Familiar | (Item | Familiar)[]): boolean {
     if (item === undefined) return true;
-    if (Array.isArray(item)) return item.every((val) => this.equip(val));
+    if (Array.isArray(item)) {
+      const order = this.findOrder(item);
+      return order !== undefined && order.every((val) => this.equip(val));
+    }
     if (!have(item)) return false;
     if (this.avoid && this.avoid.find((i) => i === item) !== undefined) return false;
 
@@ -38,15 +53,18 @@ export class Outfit {
         this.accesories.push(item);
         return true;
       }
-      if (!this.equips.has(slot)) {
+      if (this.slotFree(slot)) {
+        // Two-handed weapons also take up the off-hand
+        if (slot === $slot`weapon` && weaponHands(item) > 1 && !this.slotFree($slot`off-hand`))
+          return false;
         this.equips.set(slot, item);
         return true;
       }
       if (
         slot === $slot`weapon` &&
-        !this.equips.has($slot`off-hand`) &&
+        this.slotFree($slot`off-hand`) &&
         have($skill`Double-Fisted Skull Smashing`) &&
-        weaponHands(item)
+        weaponHands(item) === 1
       ) {
         this.equips.set($slot`off-hand`, item);
         return true;
@@ -76,6 +94,39 @@ export class Outfit {
     }
   }
 
+  private slotFree(slot: Slot): boolean {
+    if (slot === $slot`off-hand`) {
+      const weapon = this.equips.get($slot`weapon`);
+      if (weapon !== undefined && weaponHands(weapon) > 1) return false;
+    }
+    return !this.equips.has(slot);
+  }
+
+  private copy(): Outfit {
+    const result = new Outfit();
+    result.equips = new Map(this.equips);
+    result.accesories = [...this.accesories];
+    result.bonuses = new Map(this.bonuses);
+    result.skipDefaults = this.skipDefaults;
+    result.familiar = this.familiar;
+    result.modifier = this.modifier;
+    result.avoid = this.avoid;
+    return result;
+  }
+
+  /**
+   * Find an order in which all of the items can be equipped together, if any.
+   * Items are placed one at a time into the first slot that fits, so the
+   * order matters (e.g. which of two off-hand items ends up on Left-Hand Man).
+   */
+  private findOrder(items: (Item | Familiar)[]): (Item | Familiar)[] | undefined {
+    for (const order of permutations(items)) {
+      const outfit = this.copy();
+      if (order.every((val) => outfit.equip(val))) return order;
+    }
+    return undefined;
+  }
+
   equipFirst<T extends Resource>(resources: T[]): T | undefined {
     for (const resource of resources) {
       if (!resource.available()) continue;
@@ -102,119 +153,44 @@ export class Outfit {
 
   canEquip(item?: Item | Familiar | (Item | Familiar)[]): boolean {
     if (item === undefined) return true;
-    if (Array.isArray(item)) return item.every((val) => this.canEquip(val)); // TODO: smarter
-    if (!have(item)) return false;
-    if (this.avoid && this.avoid.find((i) => i === item) !== undefined) return false;
+    if (Array.isArray(item)) return this.findOrder(item) !== undefined;
+    return this.copy().equip(item);
+  }
 
-    if (item instanceof Item) {
-      const slot = toSlot(item);
-      if (slot === $slot`acc1`) {
-        if (this.accesories.length >= 3) return false;
-        return true;
-      }
-      if (!this.equips.has(slot)) {
-        return true;
-      }
-      if (
-        slot === $slot`weapon` &&
-        !this.equips.has($slot`off-hand`) &&
-        have($skill`Double-Fisted Skull Smashing`) &&
-        weaponHands(item)
-      ) {
-        return true;
-      }
-      if (
-        slot === $slot`off-hand` &&
-        have($familiar`Left-Hand Man`) &&
-        this.familiar === undefined &&
-        !this.equips.has($slot`familiar`)
-      ) {
-        return true;
-      }
-      return false;
-    } else {
-      if (this.familiar) return false;
-      if (!have(item)) return false;
-      return true;
-    }
+  /**
+   * Prefer the item when dressing, without requiring it.
+   * @param value The bonus to the maximizer score when the item is worn.
+   */
+  bonus(item: Item, value: number): void {
+    if (!have(item)) return;
+    if (this.avoid && this.avoid.find((i) => i === item) !== undefined) return;
+    this.bonuses.set(item, value);
   }
 
   dress(): void {
     if (this.familiar) useFamiliar(this.familiar);
-    const targetEquipment = Array.from(this.equips.values());
-    const accessorySlots = $slots`acc1, acc2, acc3`;
-    for (const slot of $slots`weapon, off-hand, hat, shirt, pants, familiar, buddy-bjorn, crown-of-thrones, back`) {
-      if (
-        targetEquipment.includes(equippedItem(slot)) &&
-        this.equips.get(slot) !== equippedItem(slot)
-      )
-        equip(slot, $item`none`);
-    }
-
-    //Order is anchored here to prevent DFSS shenanigans
-    for (const slot of $slots`weapon, off-hand, hat, back, shirt, pants, familiar, buddy-bjorn, crown-of-thrones`) {
-      const equipment = this.equips.get(slot);
-      if (equipment) equip(slot, equipment);
-    }
-
-    //We don't care what order accessories are equipped in, just that they're equipped
-    const accessoryEquips = this.accesories;
-    for (const slot of accessorySlots) {
-      const toEquip = accessoryEquips.find(
-        (equip) =>
-          equippedAmount(equip) < accessoryEquips.filter((accessory) => accessory === equip).length
-      );
-      if (!toEquip) break;
-      const currentEquip = equippedItem(slot);
-      //We never want an empty accessory slot
-      if (
-        currentEquip === $item`none` ||
-        equippedAmount(currentEquip) >
-          accessoryEquips.filter((accessory) => accessory === currentEquip).length
-      ) {
-        equip(slot, toEquip);
-      }
-    }
-
-    for (const item of this.avoid ?? []) {
-      if (equippedAmount(item) > 0) cliExecute(`unequip ${item.name}`);
-    }
 
-    for (const item of this.avoid ?? []) {
-      if (equippedAmount(item) > 0) cliExecute(`unequip ${item.name}`);
-    }
-
-    if (this.modifier) {
-      // Handle familiar equipment manually to avoid weird Left-Hand Man behavior
-      const fam_equip = this.equips.get($slot`familiar`);
-      if (fam_equip !== undefined) {
-        const index = targetEquipment.indexOf(fam_equip);
-        if (index > -1) targetEquipment.splice(index, 1);
-      }
-
-      let requirements = Requirement.merge([
-        new Requirement([this.modifier], {
-          forceEquip: targetEquipment.concat(...accessoryEquips),
-        }),
-      ]);
+    // Handle familiar equipment manually to avoid weird Left-Hand Man behavior
+    const fam_equip = this.equips.get($slot`familiar`);
+    if (fam_equip !== undefined) equip($slot`familiar`, fam_equip);
 
-      if (fam_equip !== undefined) {
-        requirements = Requirement.merge([
-          requirements,
-          new Requirement([], { preventSlot: [$slot`familiar`] }),
-        ]);
-      }
-
-      if (this.avoid !== undefined) {
-        requirements = Requirement.merge([
-          requirements,
-          new Requirement([], { preventEquip: this.avoid }),
-        ]);
-      }
+    // Equip everything else in a single maximizer call, whether or not there is a modifier
+    const forced = Array.from(this.equips.entries())
+      .filter(([slot]) => slot !== $slot`familiar`)
+      .map(([, item]) => item)
+      .concat(this.accesories);
+    const avoid = this.avoid ?? [];
+    if (!this.modifier && forced.length === 0 && avoid.length === 0 && this.bonuses.size === 0)
+      return;
 
-      if (!requirements.maximize()) {
-        throw `Unable to maximize ${this.modifier}`;
-      }
+    const requirement = new Requirement(this.modifier ? [this.modifier] : [], {
+      forceEquip: forced,
+      preventEquip: avoid,
+      preventSlot: fam_equip !== undefined ? [$slot`familiar`] : [],
+      bonusEquip: this.bonuses,
+    });
+    if (!requirement.maximize()) {
+      throw `Unable to maximize ${this.modifier ?? `with ${forced.join(", ")}`}`;
     }
   }
 
@@ -249,8 +225,8 @@ export class Outfit {
   }
 
   public equipDefaults(): void {
-    if (myBasestat($stat`muscle`) >= 40) this.equip($item`mafia thumb ring`);
-    this.equip($item`lucky gold ring`);
+    if (myBasestat($stat`muscle`) >= 40) this.bonus($item`mafia thumb ring`, default_bonus);
+    this.bonus($item`lucky gold ring`, default_bonus);
 
     // low priority familiars for combat frequency
     if (this.modifier?.includes("-combat")) this.equip($familiar`Disgeist`);
@@ -0,0 +1,68 @@
+import { Location } from "kolmafia";
+import { MonsterStrategy } from "./combat";
+import { Engine } from "./engine";
+import { debug } from "./lib";
+import { Outfit } from "./outfit";
+import { wandererSources } from "./resources";
+import { Task } from "./tasks/structure";
+
+/**
+ * Simulate the full route without touching the game, printing the order in
+ * which tasks would be executed along with the resources allocated to each.
+ *
+ * Each chosen task is treated as completed for the rest of the simulation.
+ * All other state (e.g. resource availability) is read from the current game
+ * state, so later allocations are only a rough guide.
+ */
+export function planRoute(tasks: Task[], skipped?: Set<string>): void {
+  const finished = new Set<string>();
+  const simulated = tasks.map(
+    (task): Task => ({
+      ...task,
+      completed: () => finished.has(task.name) || task.completed(),
+    })
+  );
+  const engine = new Engine(simulated, skipped);
+
+  debug("Planned route:", "blue");
+  let index = 1;
+  while (finished.size < simulated.length) {
+    const next = engine.getNextTask();
+    if (next === undefined) break;
+    const [task, wanderer] = next;
+    finished.add(task.name);
+
+    const details = [];
+    if (!task.freeaction) {
+      const outfit = Outfit.create(task);
+      const wanderers = wanderer ? [wanderer] : [];
+      for (const source of wanderers) outfit.equip(source.equip);
+
+      const resources = engine.allocateCombatResources(task, outfit, wanderers);
+      for (const [strategy, label] of [
+        [MonsterStrategy.Banish, "banish"],
+        [MonsterStrategy.Ignore, "runaway"],
+        [MonsterStrategy.IgnoreNoBanish, "runaway (no banish)"],
+        [MonsterStrategy.KillFree, "freekill"],
+      ] as [MonsterStrategy, string][]) {
+        const resource = resources.get(strategy);
+        if (resource !== undefined) details.push(`${label}: ${resource.name}`);
+      }
+
+      if (wanderers.length === 0 && engine.hasDelay(task))
+        wanderers.push(...outfit.equipUntilCapped(wandererSources));
+      if (wanderers.length > 0)
+        details.push(`wanderers: ${wanderers.map((source) => source.name).join(", ")}`);
+    }
+    if (task.do instanceof Location) details.unshift(`${task.do}`);
+
+    debug(`${index}. ${task.name}${details.length > 0 ? ` (${details.join("; ")})` : ""}`);
+    index++;
+  }
+
+  const remaining = simulated.filter((task) => !task.completed() && !skipped?.has(task.name));
+  if (remaining.length > 0) {
+    debug("Tasks that would not be reached:", "red");
+    for (const task of remaining) debug(`${task.name}`, "red");
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  currentRound,
+  handlingChoice,
+  mpCost,
+  myMaxhp,
+  myMaxmp,
+  myMp,
+  runChoice,
+  Skill,
+} from "kolmafia";
+import { $effect, have, uneffect } from "libram";
+import { CombatStrategy, MonsterStrategy, spellKillMacro } from "./combat";
+import { debug } from "./lib";
+import { spellKillSources } from "./resources";
+import { restore } from "./restore";
+import { OutfitSpec, Task } from "./tasks/structure";
+
+export type Failure = "lost fight" | "out of MP" | "macro aborted" | "unexpected choice";
+
+function outOfMp(): boolean {
+  const spell = spellKillSources.find((source) => source.available());
+  return spell !== undefined && spell.do instanceof Skill && myMp() < mpCost(spell.do);
+}
+
+/**
+ * Determine what went wrong with the last action, if anything.
+ */
+export function classifyFailure(): Failure | undefined {
+  if (currentRound() > 0) return "macro aborted"; // The fight is still in progress
+  if (handlingChoice()) return "unexpected choice";
+  if (have($effect`Beaten Up`)) return outOfMp() ? "out of MP" : "lost fight";
+  return undefined;
+}
+
+/**
+ * Return the character to a state where adventuring can continue.
+ */
+export function recover(failure: Failure): void {
+  switch (failure) {
+    case "macro aborted":
+      debug("Finishing the fight with the default kill macro.", "orange");
+      spellKillMacro().submit();
+      break;
+    case "unexpected choice":
+      debug("Leaving the choice adventure with the default option.", "orange");
+      runChoice(-1);
+      break;
+    case "lost fight":
+    case "out of MP":
+      break;
+  }
+
+  if (have($effect`Beaten Up`)) {
+    debug("Removing Beaten Up.", "orange");
+    if (!uneffect($effect`Beaten Up`)) throw "Unable to remove Beaten Up; stop.";
+  }
+  debug("Restoring HP and MP.", "orange");
+  restore(myMaxhp(), Math.min(myMaxmp(), 200));
+}
+
+/**
+ * Build a copy of the task that kills hard, in an outfit that helps to survive the fight.
+ */
+export function hardened(task: Task): Task {
+  const combat = task.combat ?? new CombatStrategy();
+  const hard_combat = new CombatStrategy(combat.boss);
+  const harden = (strategy: MonsterStrategy) =>
+    strategy === MonsterStrategy.Kill ? MonsterStrategy.KillHard : strategy;
+  hard_combat.default_strategy = harden(combat.default_strategy);
+  hard_combat.default_macro = combat.default_macro;
+  combat.strategy.forEach((strategy, monster) => hard_combat.apply(harden(strategy), monster));
+  combat.macros.forEach((macro, monster) => hard_combat.macro(macro, monster));
+
+  return {
+    ...task,
+    combat: hard_combat,
+    outfit: (): OutfitSpec => {
+      const spec = (typeof task.outfit === "function" ? task.outfit() : task.outfit) ?? {};
+      const defense = "0.5 HP, 0.2 DA, 0.2 DR";
+      return { ...spec, modifier: spec.modifier ? `${spec.modifier}, ${defense}` : defense };
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { formFields, Location, write } from "kolmafia";
+import { Args } from "./args";
+import { Engine } from "./engine";
+import { args, selectTasks } from "./main";
+import { Task } from "./tasks/structure";
+
+export type TaskStatus = {
+  name: string;
+  status: "completed" | "available" | "blocked";
+  blockers: string[]; // Why a blocked task cannot be executed
+  usage: string; // Attempts used against the limit of the task
+  next: boolean; // True if the engine would execute this task next
+};
+
+function usage(engine: Engine, task: Task): string {
+  const attempts = engine.attempts[task.name] ?? 0;
+  if (task.limit.tries !== undefined) return `${attempts}/${task.limit.tries} tries`;
+  if (task.limit.soft !== undefined) return `${attempts}/${task.limit.soft} tries (soft)`;
+  if (task.limit.turns !== undefined && task.do instanceof Location)
+    return `${task.do.turnsSpent}/${task.limit.turns} turns`;
+  return `${attempts}`;
+}
+
+/**
+ * Determine the status of every task in the engine, using the engine's own
+ * logic for which tasks are available and which would be executed next.
+ */
+export function taskStatuses(engine: Engine): TaskStatus[] {
+  const next = engine.getNextTask()?.[0].name;
+  return engine.tasks.map((task) => {
+    const blockers = task.completed() ? [] : engine.blockers(task);
+    return {
+      name: task.name,
+      status: task.completed() ? "completed" : blockers.length === 0 ? "available" : "blocked",
+      blockers: blockers,
+      usage: usage(engine, task),
+      next: task.name === next,
+    };
+  });
+}
+
+function escape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const status_colors = {
+  completed: "#888888",
+  available: "green",
+  blocked: "red",
+};
+
+/**
+ * Render the status of every task as an html page, refreshing periodically.
+ */
+export function renderDashboard(engine: Engine): string {
+  const statuses = taskStatuses(engine);
+  const next = statuses.find((status) => status.next);
+  const rows = statuses.map(
+    (status) =>
+      `<tr${status.next ? ' style="font-weight:bold"' : ""}>` +
+      `<td>${escape(status.name)}</td>` +
+      `<td style="color:${status_colors[status.status]}">${status.status}</td>` +
+      `<td>${escape(status.blockers.join(", "))}</td>` +
+      `<td>${escape(status.usage)}</td></tr>`
+  );
+  return [
+    '<html><head><meta http-equiv="refresh" content="10"><title>loopcasual</title></head><body>',
+    `<h2>Next task: ${next ? escape(next.name) : "none"}</h2>`,
+    '<table border="1" cellpadding="3" style="border-collapse:collapse">',
+    "<tr><th>Task</th><th>Status</th><th>Blocked by</th><th>Attempts</th></tr>",
+    ...rows,
+    "</table></body></html>",
+  ].join("\n");
+}
+
+/**
+ * Relay page showing the status of the current run. Accepts the same
+ * arguments as the script (e.g. relay_loopcasual.js?args=goal=war).
+ */
+export function main(): void {
+  Args.fill(args, formFields()["args"]);
+  const [tasks, skipped] = selectTasks();
+  write(renderDashboard(new Engine(tasks, skipped)));
+}
@@ -1,6 +1,5 @@
 import {
   bjornifyFamiliar,
-  buy,
   cliExecute,
   Familiar,
   familiarWeight,
@@ -11,7 +10,6 @@ import {
   Monster,
   myLevel,
   myTurncount,
-  retrieveItem,
   Skill,
   totalTurnsPlayed,
   use,
@@ -35,6 +33,7 @@ import {
   sum,
 } from "libram";
 import { debug } from "./lib";
+import { obtain, purchase } from "./spending";
 
 export interface Resource {
   name: string;
@@ -117,7 +116,7 @@ export const banishSources: BanishSource[] = [
   {
     name: "Louder Than Bomb",
     prepare: () => {
-      retrieveItem($item`Louder Than Bomb`);
+      obtain($item`Louder Than Bomb`);
     },
     available: () => true,
     do: $item`Louder Than Bomb`,
@@ -125,7 +124,7 @@ export const banishSources: BanishSource[] = [
   {
     name: "Tennis Ball",
     prepare: () => {
-      retrieveItem($item`tennis ball`);
+      obtain($item`tennis ball`);
     },
     available: () => true,
     do: $item`tennis ball`,
@@ -133,7 +132,7 @@ export const banishSources: BanishSource[] = [
   {
     name: "Divine Champagne Popper",
     prepare: () => {
-      retrieveItem($item`divine champagne popper`);
+      obtain($item`divine champagne popper`);
     },
     available: () => true,
     do: $item`divine champagne popper`,
@@ -391,7 +390,7 @@ export const runawaySources: RunawaySource[] = [
     prepare: (): void => {
       if (!have($item`glob of Blank-Out`)) {
         if (!have($item`bottle of Blank-Out`)) {
-          buy(1, $item`bottle of Blank-Out`, 5 * runawayValue);
+          purchase($item`bottle of Blank-Out`, 1, 5 * runawayValue);
         }
         use($item`bottle of Blank-Out`);
       }
@@ -427,16 +426,16 @@ export const runawaySources: RunawaySource[] = [
     prepare: () => {
       if (have($item`peppermint parasol`)) return;
       if (itemAmount($item`peppermint sprout`) >= 5) {
-        retrieveItem($item`peppermint parasol`);
+        obtain($item`peppermint parasol`);
       } else if (mallPrice($item`peppermint parasol`) < 5 * mallPrice($item`peppermint sprout`)) {
-        buy($item`peppermint parasol`, 1, mallPrice($item`peppermint parasol`));
+        purchase($item`peppermint parasol`, 1, mallPrice($item`peppermint parasol`));
       } else {
-        buy(
+        purchase(
           $item`peppermint sprout`,
           5 - itemAmount($item`peppermint sprout`),
           mallPrice($item`peppermint sprout`)
         );
-        retrieveItem($item`peppermint parasol`);
+        obtain($item`peppermint parasol`);
       }
     },
     do: new Macro().item($item`peppermint parasol`),
@@ -484,3 +483,41 @@ export const freekillSources: FreekillSource[] = [
     do: $skill`Asdon Martin: Missile Launcher`,
   },
 ];
+
+// Skills and items used by the default combat macros, chosen from what the character has
+function skillSource(skill: Skill): CombatResource {
+  return { name: skill.name, available: () => have(skill), do: skill };
+}
+function itemSource(item: Item): CombatResource {
+  return { name: item.name, available: () => have(item), do: item };
+}
+
+// All available sources are used to delevel
+export const delevelSources: CombatResource[] = [
+  skillSource($skill`Curse of Weaksauce`),
+  skillSource($skill`Pocket Crumbs`),
+  skillSource($skill`Micrometeorite`),
+  itemSource($item`Rain-Doh indigo cup`),
+  skillSource($skill`Summon Love Mosquito`),
+  itemSource($item`Time-Spinner`),
+];
+
+// The first available source is used to kill, falling back to attacking
+export const spellKillSources: CombatResource[] = [
+  skillSource($skill`Saucegeyser`),
+  skillSource($skill`Weapon of the Pastalord`),
+  skillSource($skill`Saucestorm`),
+  skillSource($skill`Cannelloni Cannon`),
+  skillSource($skill`Stream of Sauce`),
+];
+// Only cheap spells are used on monsters that were meant to be avoided
+export const cheapSpellKillSources: CombatResource[] = [
+  skillSource($skill`Saucestorm`),
+  skillSource($skill`Cannelloni Cannon`),
+  skillSource($skill`Stream of Sauce`),
+];
+export const physicalKillSources: CombatResource[] = [
+  skillSource($skill`Lunging Thrust-Smack`),
+  skillSource($skill`Thrust-Smack`),
+  skillSource($skill`Lunge Smack`),
+];
@@ -0,0 +1,181 @@
+import {
+  cliExecute,
+  Item,
+  mpCost,
+  myHp,
+  myLevel,
+  myMaxhp,
+  myMaxmp,
+  myMp,
+  retrievePrice,
+  Skill,
+  totalFreeRests,
+  use,
+  useSkill,
+} from "kolmafia";
+import { $effect, $item, $skill, ChateauMantegna, get, have } from "libram";
+import { CombatStrategy, MonsterStrategy } from "./combat";
+import { debug } from "./lib";
+import { args } from "./main";
+import { Resource } from "./resources";
+import { canSpend, obtain } from "./spending";
+import { Task } from "./tasks/structure";
+
+export interface RestoreSource extends Resource {
+  hp: () => number; // HP restored by one use
+  mp: () => number; // MP restored by one use
+  cost: () => number; // Meat spent by one use
+  do: () => void;
+}
+
+function itemRestore(item: Item, hp: () => number, mp: () => number): RestoreSource {
+  return {
+    name: item.name,
+    available: () => have(item) || canSpend(retrievePrice(item)),
+    hp: hp,
+    mp: mp,
+    cost: () => retrievePrice(item),
+    do: () => {
+      if (!obtain(item)) throw `Unable to obtain ${item}`;
+      use(item);
+    },
+  };
+}
+
+const mp_items = [
+  itemRestore(
+    $item`magical mystery juice`,
+    () => 0,
+    () => myLevel() * 1.5 + 5
+  ),
+  itemRestore(
+    $item`Doc Galaktik's Invigorating Tonic`,
+    () => 0,
+    () => 9
+  ),
+];
+
+// Skills are paid for in MP, so value MP at the price of the cheapest restorative
+export function meatPerMp(): number {
+  return Math.min(...mp_items.map((source) => source.cost() / source.mp()));
+}
+
+function skillRestore(skill: Skill, hp: () => number): RestoreSource {
+  return {
+    name: skill.name,
+    available: () => have(skill) && myMp() >= mpCost(skill),
+    hp: hp,
+    mp: () => 0,
+    cost: () => mpCost(skill) * meatPerMp(),
+    do: () => {
+      useSkill(skill);
+    },
+  };
+}
+
+// Free restores are limited, so value each use at what a small restore would
+// cost instead; this keeps them for when a large restore is actually needed
+const free_rest_cost = 250;
+const hot_tub_cost = 500;
+// Soaks left for removing negative effects (e.g. after Snojo)
+const hot_tub_reserve = 2;
+
+export const restoreSources: RestoreSource[] = [
+  {
+    name: "Free rest",
+    // Free rests at the Chateau are spent on stats while leveling
+    available: () =>
+      get("timesRested") < totalFreeRests() &&
+      (!ChateauMantegna.have() || myLevel() >= args.levelto),
+    // Estimates; the actual amount depends on where the rest is taken
+    hp: () => (ChateauMantegna.have() ? 250 : 40),
+    mp: () => (ChateauMantegna.have() ? 125 : 20),
+    cost: () => free_rest_cost,
+    do: () => {
+      cliExecute("rest free");
+    },
+  },
+  {
+    name: "Hot tub",
+    available: () => have($item`Clan VIP Lounge key`) && get("_hotTubSoaks") < 5 - hot_tub_reserve,
+    hp: () => myMaxhp(),
+    mp: () => myMaxmp(),
+    cost: () => hot_tub_cost,
+    do: () => {
+      cliExecute("hottub");
+    },
+  },
+  skillRestore($skill`Cannelloni Cocoon`, () => 1000),
+  skillRestore($skill`Tongue of the Walrus`, () => 35),
+  skillRestore($skill`Lasagna Bandages`, () => 20),
+  itemRestore(
+    $item`scroll of drastic healing`,
+    () => myMaxhp(),
+    () => 0
+  ),
+  itemRestore(
+    $item`Doc Galaktik's Homeopathic Elixir`,
+    () => 19,
+    () => 0
+  ),
+  ...mp_items,
+];
+
+/**
+ * Choose the restore source with the lowest cost per HP and MP that is actually needed.
+ */
+export function chooseRestore(hp_needed: number, mp_needed: number): RestoreSource | undefined {
+  let best: RestoreSource | undefined = undefined;
+  let best_cost = Infinity;
+  for (const source of restoreSources) {
+    if (!source.available()) continue;
+    const useful = Math.min(source.hp(), hp_needed) + Math.min(source.mp(), mp_needed);
+    if (useful <= 0) continue;
+    const cost = source.cost() / useful;
+    if (cost < best_cost) {
+      best = source;
+      best_cost = cost;
+    }
+  }
+  return best;
+}
+
+/**
+ * Restore HP and MP up to the given targets, as cheaply as possible.
+ */
+export function restore(hp_target: number, mp_target: number): void {
+  // Bound the number of restores, in case a source does not restore as much as expected
+  for (let i = 0; i < 20; i++) {
+    const hp_needed = Math.max(0, Math.min(hp_target, myMaxhp()) - myHp());
+    const mp_needed = Math.max(0, Math.min(mp_target, myMaxmp()) - myMp());
+    if (hp_needed === 0 && mp_needed === 0) return;
+
+    const source = chooseRestore(hp_needed, mp_needed);
+    if (source === undefined) {
+      debug(`Unable to restore to ${hp_target} HP and ${mp_target} MP.`, "red");
+      return;
+    }
+    debug(`Restoring ${hp_needed} HP and ${mp_needed} MP with ${source.name}`);
+    source.do();
+  }
+}
+
+/**
+ * Determine how much HP and MP to have before starting the task.
+ * @returns The target [HP, MP].
+ */
+export function restoreTargets(task: Task): [number, number] {
+  if (task.freeaction) return [0, 0];
+  const combat = task.combat ?? new CombatStrategy();
+  const fights =
+    combat.boss || combat.can(MonsterStrategy.Kill) || combat.can(MonsterStrategy.KillHard);
+
+  const hp = combat.boss ? myMaxhp() : fights ? myMaxhp() * 0.75 : myMaxhp() / 2;
+  // Spells are free with Super Skill
+  const mp = have($effect`Super Skill`) ? 0 : fights ? 200 : 50;
+  return [Math.ceil(hp), mp];
+}
+
+export function heal(): void {
+  restore(myMaxhp(), 0);
+}
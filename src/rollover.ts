@@ -0,0 +1,24 @@
+import { myAdventures, myDaycount, print } from "kolmafia";
+import { Requirement } from "libram";
+import { nightcap } from "./tasks/diet";
+
+/**
+ * Prepare for rollover once no adventures remain, so that the run can be
+ * continued on the next day.
+ */
+export function endOfDay(): void {
+  if (myAdventures() > 0) throw "Adventures remain; not ending the day.";
+  print(`Ending day ${myDaycount()} of the run.`, "blue");
+
+  // A failed nightcap should not stop the rest of the day from finishing
+  try {
+    nightcap();
+  } catch (e) {
+    print(`Unable to drink a nightcap: ${e}`, "red");
+  }
+
+  // Put on pajamas for rollover adventures and fights
+  if (!new Requirement(["adv", "0.3 fites"], {}).maximize()) {
+    print("Unable to maximize pajamas for rollover.", "red");
+  }
+}
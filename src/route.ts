@@ -1,6 +1,8 @@
+import { fileToBuffer } from "kolmafia";
+import { TaskId } from "./tasks/all";
 import { Task } from "./tasks/structure";
 
-export const routing: string[] = [
+export const routing: TaskId[] = [
   "Diet/Numberology", // Numberology is always ready at the start of the day
   "Diet/Sausage", // Eat magical sausages as soon as they are obtained
   "Diet/Hourglass",
@@ -85,7 +87,6 @@ export const routing: string[] = [
 
   // Non-delay quests
   "Mosquito/Finish",
-  "Tavern/Finish",
   "Bat/Use Sonar",
   "Crypt/Finish",
   "McLargeHuge/Finish",
@@ -107,7 +108,146 @@ export const routing: string[] = [
   "Organ/Finish", // Organ last, just so it doesn't appear in turncount
 ];
 
-export function prioritize(tasks: Task[], ignore_missing_tasks?: boolean): Task[] {
+/**
+ * A user-provided change to the routing list.
+ * @member pin Move the task to the front of the routing (pins keep their relative order).
+ * @member move Move the task immediately before or after another task.
+ * @member remove Drop the task from the routing.
+ */
+export type RouteOverride =
+  | { kind: "pin"; task: string }
+  | { kind: "move"; task: string; where: "before" | "after"; target: string }
+  | { kind: "remove"; task: string };
+
+/**
+ * Parse routing overrides, one per line, in the format:
+ *    pin [task]
+ *    move [task] before [task]
+ *    move [task] after [task]
+ *    remove [task]
+ * Blank lines and lines starting with # are ignored.
+ */
+export function parseRouteOverrides(contents: string): RouteOverride[] {
+  const result: RouteOverride[] = [];
+  contents.split(/\r?\n/).forEach((raw_line, index) => {
+    const line = raw_line.trim();
+    if (line === "" || line.startsWith("#")) return;
+
+    const [command, ...rest] = line.split(" ");
+    const argument = rest.join(" ").trim();
+    if (command === "pin") {
+      result.push({ kind: "pin", task: argument });
+    } else if (command === "remove") {
+      result.push({ kind: "remove", task: argument });
+    } else if (command === "move") {
+      const match = argument.match(/^(.+?) (before|after) (.+)$/);
+      if (match === null)
+        throw `Routing override line ${index + 1}: expected "move [task] before|after [task]"`;
+      result.push({
+        kind: "move",
+        task: match[1],
+        where: match[2] === "before" ? "before" : "after",
+        target: match[3],
+      });
+    } else {
+      throw `Routing override line ${index + 1}: unknown command ${command}`;
+    }
+  });
+  return result;
+}
+
+export function routeProfileFile(profile: string): string {
+  return `loopcasual_route_${profile}.txt`;
+}
+
+export function loadRouteProfile(profile: string): RouteOverride[] {
+  const contents = fileToBuffer(routeProfileFile(profile));
+  if (contents === "") throw `Unable to load routing profile ${routeProfileFile(profile)}`;
+  return parseRouteOverrides(contents);
+}
+
+/**
+ * Merge routing overrides into a routing list.
+ * @param base The routing list to start from.
+ * @param overrides The overrides to apply, in order.
+ * @param known Names of all tasks that can appear in the routing.
+ * @param problems If given, problems with the overrides are added to this
+ *    list and those overrides are skipped. Otherwise, the first problem is thrown.
+ * @returns A new routing list.
+ */
+export function applyRouteOverrides(
+  base: string[],
+  overrides: RouteOverride[],
+  known: Set<string>,
+  problems?: string[]
+): string[] {
+  const result = base.slice();
+  const pinned: string[] = [];
+  const remove = (task: string) => {
+    for (const list of [result, pinned]) {
+      const index = list.indexOf(task);
+      if (index !== -1) list.splice(index, 1);
+    }
+  };
+  const report = (problem: string) => {
+    if (problems === undefined) throw problem;
+    problems.push(problem);
+  };
+
+  for (const override of overrides) {
+    if (!known.has(override.task)) {
+      report(`Unknown task ${override.task} in routing override`);
+      continue;
+    }
+    switch (override.kind) {
+      case "pin":
+        remove(override.task);
+        pinned.push(override.task);
+        break;
+      case "remove":
+        remove(override.task);
+        break;
+      case "move": {
+        if (!known.has(override.target)) {
+          report(`Unknown task ${override.target} in routing override`);
+          break;
+        }
+        if (pinned.includes(override.target)) {
+          report(
+            `Cannot move ${override.task} relative to ${override.target}, which is pinned (pin ${override.task} instead)`
+          );
+          break;
+        }
+        if (override.target === override.task || !result.includes(override.target)) {
+          report(
+            `Cannot move ${override.task} relative to ${override.target}, which is not routed`
+          );
+          break;
+        }
+        remove(override.task);
+        const target = result.indexOf(override.target);
+        result.splice(override.where === "before" ? target : target + 1, 0, override.task);
+        break;
+      }
+    }
+  }
+  return [...pinned, ...result];
+}
+
+export function prioritize(
+  tasks: Task[],
+  ignore_missing_tasks?: boolean,
+  overrides?: RouteOverride[]
+): Task[] {
+  const route =
+    overrides === undefined
+      ? routing
+      : applyRouteOverrides(
+          routing,
+          overrides,
+          new Set([...routing, ...tasks.map((task) => task.name)])
+        );
+
   const priorities = new Map<string, [number, Task]>();
   for (const task of tasks) {
     if (task.delay !== undefined) priorities.set(task.name, [2000, task]); // Finish delay as late as possible
@@ -128,8 +268,8 @@ export function prioritize(tasks: Task[], ignore_missing_tasks?: boolean): Task[
       setPriorityRecursive(requirement, priority - 0.01);
     }
   }
-  for (let i = 0; i < routing.length; i++) {
-    setPriorityRecursive(routing[i], i);
+  for (let i = 0; i < route.length; i++) {
+    setPriorityRecursive(route[i], i);
   }
 
   // Sort all tasks by priority.
@@ -0,0 +1,134 @@
+import {
+  elementalResistance,
+  equippedItem,
+  getPower,
+  Monster,
+  monsterAttack,
+  monsterDefense,
+  monsterHp,
+  myBuffedstat,
+  numericModifier,
+  weaponType,
+} from "kolmafia";
+import { $element, $slot, $stat } from "libram";
+import { spellKillSources } from "./resources";
+
+/**
+ * Rough expectations for a fight against a single monster.
+ * @member monster_hp The HP of the monster.
+ * @member hit_chance The chance that our attacks hit.
+ * @member attack_damage Expected damage per round from attacking, including misses.
+ * @member spell_damage Expected damage per round from the best spell, or 0 if none.
+ * @member damage_taken Expected damage per round dealt to us by the monster.
+ */
+export type FightEstimate = {
+  monster_hp: number;
+  hit_chance: number;
+  attack_damage: number;
+  spell_damage: number;
+  damage_taken: number;
+};
+
+export type KillChoice = "attack" | "spell" | "freekill";
+
+// Fights taking longer than this are not worth attacking through
+const max_attack_rounds = 20;
+
+// Approximate base damage and mysticality scaling of each kill spell
+const spell_formulas: { [skill: string]: [number, number] } = {
+  Saucegeyser: [65, 0.4],
+  "Weapon of the Pastalord": [48, 0.5],
+  Saucestorm: [22, 0.2],
+  "Cannelloni Cannon": [20, 0.25],
+  "Stream of Sauce": [17, 0.35],
+};
+
+// KoL rolls to hit with a spread of about 6 either side of the defending stat
+function hitChance(attack: number, defense: number): number {
+  return Math.min(1, Math.max(0, (attack - defense + 6) / 12));
+}
+
+function attackDamage(monster: Monster): [number, number] {
+  const weapon = equippedItem($slot`Weapon`);
+  const stat = myBuffedstat(weaponType(weapon));
+  const defense = monsterDefense(monster);
+  const hit = hitChance(stat, defense);
+  const damage =
+    (0.15 * getPower(weapon) + Math.max(0, stat - defense) + numericModifier("Weapon Damage")) *
+    (1 + numericModifier("Weapon Damage Percent") / 100) *
+    (1 - monster.physicalResistance / 100);
+  return [hit, hit * damage];
+}
+
+function spellDamage(monster: Monster): number {
+  const spell = spellKillSources.find((source) => source.available());
+  if (spell === undefined) return 0;
+  const [base, scaling] = spell_formulas[spell.name] ?? [0, 0];
+  return (
+    (base + scaling * myBuffedstat($stat`mysticality`) + numericModifier("Spell Damage")) *
+    (1 + numericModifier("Spell Damage Percent") / 100) *
+    (1 - monster.elementalResistance / 100)
+  );
+}
+
+function damageTaken(monster: Monster): number {
+  const attack = monsterAttack(monster);
+  const moxie = myBuffedstat($stat`moxie`);
+  // Damage absorption reduces damage by a percentage with diminishing returns
+  const absorbed = Math.min(
+    0.9,
+    Math.max(0, (Math.sqrt(numericModifier("Damage Absorption") / 10) - 1) / 10)
+  );
+  const resisted =
+    monster.attackElement === $element`none` ? 0 : elementalResistance(monster.attackElement) / 100;
+  const damage =
+    (Math.max(0, attack - moxie) + 0.25 * attack - numericModifier("Damage Reduction")) *
+    (1 - absorbed) *
+    (1 - resisted);
+  return hitChance(attack, moxie) * Math.max(0, damage);
+}
+
+/**
+ * Estimate a fight against the monster with our current equipment and stats.
+ */
+export function estimateFight(monster: Monster): FightEstimate {
+  const [hit_chance, attack_damage] = attackDamage(monster);
+  return {
+    monster_hp: monsterHp(monster),
+    hit_chance: hit_chance,
+    attack_damage: attack_damage,
+    spell_damage: spellDamage(monster),
+    damage_taken: damageTaken(monster),
+  };
+}
+
+/**
+ * Choose how to kill a monster.
+ * @param estimate The expected fight.
+ * @param hp Our current HP.
+ * @param freekill True if a free kill is available for the fight.
+ * @returns The choice, along with the reasoning behind it.
+ */
+export function chooseKill(
+  estimate: FightEstimate,
+  hp: number,
+  freekill: boolean
+): [KillChoice, string] {
+  if (freekill) return ["freekill", "a free kill is available"];
+
+  const rounds = (damage: number) =>
+    damage > 0 ? Math.ceil(estimate.monster_hp / damage) : Infinity;
+  const attack_rounds = rounds(estimate.attack_damage);
+  const spell_rounds = rounds(estimate.spell_damage);
+  const taken = (rounds: number) =>
+    `taking ~${Math.round(rounds * estimate.damage_taken)} of ${hp} HP`;
+  const attacking = `attacking takes ~${attack_rounds} rounds at ${Math.round(
+    estimate.hit_chance * 100
+  )}% to hit, ${taken(attack_rounds)}`;
+
+  if (attack_rounds <= max_attack_rounds && attack_rounds * estimate.damage_taken < hp)
+    return ["attack", attacking];
+  if (spell_rounds < attack_rounds)
+    return ["spell", `casting takes ~${spell_rounds} rounds, ${taken(spell_rounds)}; ${attacking}`];
+  return ["attack", `no better option; ${attacking}`];
+}
@@ -0,0 +1,117 @@
+import { buy, Item, itemAmount, mallPrice, myMeat, retrieveItem, retrievePrice } from "kolmafia";
+import { get, set } from "libram";
+import { debug } from "./lib";
+
+/**
+ * A record of meat spent to acquire an item.
+ * @member task The task that made the purchase.
+ * @member item The item acquired.
+ * @member quantity The number of items requested.
+ * @member price The mall price of the item at the time of purchase.
+ * @member spent The meat actually spent.
+ */
+export type Purchase = {
+  task: string;
+  item: string;
+  quantity: number;
+  price: number;
+  spent: number;
+};
+
+// Purchases are saved in a daily property so that they survive script restarts
+const spending_property = "_loop_casual_spending";
+let current_task = "Other";
+let budget: number | undefined = undefined;
+
+/**
+ * Set the maximum meat to spend today, or undefined for no limit.
+ */
+export function setMeatBudget(meat?: number): void {
+  budget = meat;
+}
+
+/**
+ * Attribute all further purchases to the given task.
+ */
+export function spendFor(task_name: string): void {
+  current_task = task_name;
+}
+
+export function purchases(): Purchase[] {
+  const saved = get(spending_property, "");
+  if (saved === "") return [];
+  return JSON.parse(saved);
+}
+
+export function totalSpent(): number {
+  return purchases().reduce((total, purchase) => total + purchase.spent, 0);
+}
+
+/**
+ * Check if the given meat can be spent without exceeding the meat budget.
+ */
+export function canSpend(meat: number): boolean {
+  return budget === undefined || totalSpent() + meat <= budget;
+}
+
+function checkBudget(item: Item, quantity: number, estimate: number): void {
+  if (canSpend(estimate)) return;
+  const spent = totalSpent();
+  throw `Acquiring ${quantity} ${item} for ~${estimate} meat would exceed the meat budget (${spent}/${budget} spent).`;
+}
+
+function record(item: Item, quantity: number, meat_before: number): void {
+  const spent = Math.max(0, meat_before - myMeat());
+  if (spent === 0) return;
+  const entries = purchases();
+  entries.push({
+    task: current_task,
+    item: item.name,
+    quantity: quantity,
+    price: mallPrice(item),
+    spent: spent,
+  });
+  set(spending_property, JSON.stringify(entries));
+}
+
+/**
+ * Buy items from the mall or NPC stores, tracking the meat spent.
+ * Throws if the purchase would exceed the meat budget.
+ * @returns The number of items bought.
+ */
+export function purchase(item: Item, quantity: number, max_price?: number): number {
+  if (quantity <= 0) return 0;
+  checkBudget(item, quantity, quantity * mallPrice(item));
+  const meat_before = myMeat();
+  const amount_before = itemAmount(item);
+  if (max_price === undefined) buy(item, quantity);
+  else buy(item, quantity, max_price);
+  record(item, quantity, meat_before);
+  return itemAmount(item) - amount_before;
+}
+
+/**
+ * Retrieve items by any means (including purchasing them), tracking the meat spent.
+ * Throws if the retrieval would exceed the meat budget.
+ * @returns True if the items were retrieved.
+ */
+export function obtain(item: Item, quantity = 1): boolean {
+  checkBudget(item, quantity, retrievePrice(item, quantity));
+  const meat_before = myMeat();
+  const result = retrieveItem(item, quantity);
+  record(item, quantity, meat_before);
+  return result;
+}
+
+export function printSpending(): void {
+  const entries = purchases();
+  if (entries.length === 0) return;
+
+  const by_task = new Map<string, number>();
+  for (const entry of entries)
+    by_task.set(entry.task, (by_task.get(entry.task) ?? 0) + entry.spent);
+
+  debug("Meat spent by task:", "blue");
+  by_task.forEach((spent, task) => debug(`  ${task}: ${spent}`));
+  debug(`  Total: ${totalSpent()}${budget === undefined ? "" : ` (budget ${budget})`}`, "blue");
+}
@@ -16,19 +16,22 @@ import { MacguffinQuest } from "./level11";
 import { WarQuest } from "./level12";
 import { TowerQuest } from "./level13";
 import { KeysQuest, MiscQuest } from "./misc";
-import { Quest, Task } from "./structure";
+import { Quest, step, Task } from "./structure";
 import { LevelingQuest } from "./leveling";
+import { myLevel } from "kolmafia";
+import { $skill, have } from "libram";
+import { args } from "../main";
 
-function buildTaskList(quests: Quest[]): Task[] {
+export function buildTaskList(quests: Quest[]): Task[] {
   const result: Task[] = [];
   for (const quest of quests) {
     for (const task of quest.tasks) {
       // Include quest name in task names and dependencies (unless dependency quest is given)
-      task.name = `${quest.name}/${task.name}`;
-      task.after = task.after.map((after) =>
-        after.includes("/") ? after : `${quest.name}/${after}`
-      );
-      result.push(task);
+      result.push({
+        ...task,
+        name: `${quest.name}/${task.name}`,
+        after: task.after.map((after) => (after.includes("/") ? after : `${quest.name}/${after}`)),
+      });
     }
   }
 
@@ -45,62 +48,169 @@ function buildTaskList(quests: Quest[]): Task[] {
   return result;
 }
 
-export function all_tasks(): Task[] {
-  const quests = [
-    TootQuest,
-    LevelingQuest,
-    MiscQuest,
-    KeysQuest,
-    DietQuest,
-    MosquitoQuest,
-    TavernQuest,
-    BatQuest,
-    KnobQuest,
-    FriarQuest,
-    OrganQuest,
-    CryptQuest,
-    McLargeHugeQuest,
-    ChasmQuest,
-    GiantQuest,
-    HiddenQuest,
-    ManorQuest,
-    PalindomeQuest,
-    MacguffinQuest,
-    WarQuest,
-    TowerQuest,
-  ];
-  return buildTaskList(quests);
+export const all_quests = [
+  TootQuest,
+  LevelingQuest,
+  MiscQuest,
+  KeysQuest,
+  DietQuest,
+  MosquitoQuest,
+  TavernQuest,
+  BatQuest,
+  KnobQuest,
+  FriarQuest,
+  OrganQuest,
+  CryptQuest,
+  McLargeHugeQuest,
+  ChasmQuest,
+  GiantQuest,
+  HiddenQuest,
+  ManorQuest,
+  PalindomeQuest,
+  MacguffinQuest,
+  WarQuest,
+  TowerQuest,
+];
+
+// The full name of every task, e.g. "Palindome/Zepplin"
+type TaskIdOf<T> = T extends { name: infer Q; tasks: { name: infer N }[] }
+  ? `${Q & string}/${N & string}`
+  : never;
+export type TaskId = TaskIdOf<(typeof all_quests)[number]>;
+
+const quest_quests: Quest[] = all_quests.filter(
+  (quest) => quest !== LevelingQuest && quest !== OrganQuest
+);
+
+/**
+ * A selection of quests to complete.
+ * @member name The name of the goal, as given in the goal argument.
+ * @member quests The quests to complete.
+ * @member tasks The full names of individual tasks to complete.
+ * @member dependencies True if any tasks in other quests that the goal depends
+ *    on are included as well. Otherwise, only the tasks of the goal are included.
+ * @member completed True if the goal has been reached. By default, the goal
+ *    is reached once all of its tasks are completed.
+ * @member strict True if every task in the routing must be included.
+ */
+export type Goal = {
+  name: string;
+  quests: Quest[];
+  tasks?: TaskId[];
+  dependencies?: boolean;
+  completed?: () => boolean;
+  strict?: boolean;
+};
+
+export const goals: Goal[] = [
+  {
+    name: "all",
+    quests: all_quests,
+    completed: () =>
+      step("questL13Final") === 999 && have($skill`Liver of Steel`) && myLevel() >= args.levelto,
+    strict: true,
+  },
+  {
+    name: "level",
+    quests: [LevelingQuest],
+    completed: () => myLevel() >= args.levelto,
+  },
+  {
+    name: "quests",
+    quests: quest_quests,
+    completed: () => step("questL13Final") === 999,
+  },
+  {
+    name: "organ",
+    quests: [FriarQuest, OrganQuest],
+    completed: () => have($skill`Liver of Steel`),
+  },
+  {
+    name: "!organ",
+    quests: [LevelingQuest, ...quest_quests],
+    completed: () => step("questL13Final") === 999 && myLevel() >= args.levelto,
+  },
+  {
+    name: "war",
+    quests: [WarQuest],
+    dependencies: true,
+  },
+  {
+    name: "keys",
+    quests: [KeysQuest],
+    dependencies: true,
+  },
+];
+
+/**
+ * Find the goal with the given name. Otherwise, build a goal from a
+ * comma-separated list of quests and tasks, e.g. "Crypt,War" or "Keys/Daily Dungeon".
+ */
+export function findGoal(name: string): Goal {
+  const goal = goals.find((goal) => goal.name === name);
+  if (goal !== undefined) return goal;
+
+  const task_names = new Set(all_tasks().map((task) => task.name));
+  const custom: Goal = { name: name, quests: [], tasks: [], dependencies: true };
+  for (const part of name.split(",")) {
+    const entry = part.trim();
+    const quest = all_quests.find((quest) => quest.name === entry);
+    if (quest !== undefined) custom.quests.push(quest);
+    else if (task_names.has(entry)) custom.tasks?.push(entry as TaskId);
+    else throw `Unknown goal, quest, or task ${entry}`;
+  }
+  return custom;
+}
+
+/**
+ * Build the tasks for a goal: all tasks of its quests, followed by any tasks
+ * in other quests that they depend on (if the goal includes dependencies).
+ * Fresh tasks are built on each call.
+ */
+export function goalTasks(goal: Goal): Task[] {
+  const all = buildTaskList(all_quests);
+  const tasks_by_name = new Map<string, Task>();
+  for (const task of all) tasks_by_name.set(task.name, task);
+
+  const in_quests = (task: Task) =>
+    goal.quests.some((quest) => task.name.startsWith(`${quest.name}/`));
+  const in_goal = (task: Task) =>
+    in_quests(task) || (goal.tasks?.some((name) => name === task.name) ?? false);
+  const included = new Set<string>();
+  const to_visit = goal.dependencies ? all.filter(in_goal).map((task) => task.name) : [];
+  while (to_visit.length > 0) {
+    const name = to_visit.pop() as string;
+    if (included.has(name)) continue;
+    included.add(name);
+    to_visit.push(...(tasks_by_name.get(name)?.after ?? []));
+  }
+
+  // Keep the quest order of the goal, so that unrouted tasks are done in that order
+  const result: Task[] = [];
+  for (const quest of goal.quests)
+    result.push(...all.filter((task) => task.name.startsWith(`${quest.name}/`)));
+  result.push(...all.filter((task) => in_goal(task) && !in_quests(task)));
+  result.push(...all.filter((task) => included.has(task.name) && !in_goal(task)));
+  return result;
 }
 
-export function quest_tasks(): Task[] {
-  const quests = [
-    TootQuest,
-    MiscQuest,
-    KeysQuest,
-    DietQuest,
-    MosquitoQuest,
-    TavernQuest,
-    BatQuest,
-    KnobQuest,
-    FriarQuest,
-    CryptQuest,
-    McLargeHugeQuest,
-    ChasmQuest,
-    GiantQuest,
-    HiddenQuest,
-    ManorQuest,
-    PalindomeQuest,
-    MacguffinQuest,
-    WarQuest,
-    TowerQuest,
-  ];
-  return buildTaskList(quests);
+export function goalCompleted(goal: Goal): boolean {
+  if (goal.completed) return goal.completed();
+  return goalTasks(goal).every((task) => task.completed());
 }
 
-export function level_tasks(): Task[] {
-  return buildTaskList([LevelingQuest]);
+/**
+ * Find the quests included by each goal, along with the quests of any tasks they depend on.
+ */
+export function goalQuests(): { [goal: string]: Quest[] } {
+  const result: { [goal: string]: Quest[] } = {};
+  for (const goal of goals) {
+    const names = new Set(goalTasks(goal).map((task) => task.name.split("/")[0]));
+    result[goal.name] = all_quests.filter((quest) => names.has(quest.name));
+  }
+  return result;
 }
 
-export function organ_tasks(): Task[] {
-  return buildTaskList([FriarQuest, OrganQuest]);
+export function all_tasks(): Task[] {
+  return buildTaskList(all_quests);
 }
@@ -1,6 +1,5 @@
 import {
   availableAmount,
-  buy,
   chew,
   cliExecute,
   drink,
@@ -8,16 +7,17 @@ import {
   equip,
   familiarEquippedEquipment,
   haveEffect,
+  inebrietyLimit,
   Item,
   itemAmount,
   itemType,
   mallPrice,
   myAdventures,
-  myDaycount,
   myFullness,
   myInebriety,
   myLevel,
   mySpleenUse,
+  overdrink,
   print,
   reverseNumberology,
   setProperty,
@@ -41,17 +41,21 @@ import {
   sumNumbers,
 } from "libram";
 import { args } from "../main";
+import { purchase } from "../spending";
 import { Quest } from "./structure";
 
-export const DietQuest: Quest = {
+export type DietTask = "Consume" | "Numberology" | "Sausage" | "Hourglass";
+
+export const DietQuest: Quest<"Diet", DietTask> = {
   name: "Diet",
   tasks: [
     {
       name: "Consume",
       after: [],
-      completed: () =>
-        myDaycount() > 1 || (myFullness() >= args.stomach && myInebriety() >= args.liver),
+      // Organs are cleared at rollover, so a new diet is planned each day
+      completed: () => myFullness() >= args.stomach && myInebriety() >= args.liver,
       ready: () => myLevel() >= 13 || myAdventures() <= 1,
+      readyReason: "Requires level 13 or running out of adventures",
       do: (): void => {
         if (have($item`astral six-pack`)) {
           use($item`astral six-pack`);
@@ -86,6 +90,7 @@ export const DietQuest: Quest = {
       after: [],
       completed: () => get("_universeCalculated") >= get("skillLevel144"),
       ready: () => myAdventures() > 0 && Object.keys(reverseNumberology()).includes("69"),
+      readyReason: "Requires numberology 69 to be reachable",
       do: (): void => {
         cliExecute("numberology 69");
       },
@@ -98,6 +103,7 @@ export const DietQuest: Quest = {
       after: ["Consume"],
       completed: () => !have($item`Kramco Sausage-o-Matic™`) || get("_sausagesEaten") >= 23, // Cap at 23 sausages to avoid burning through an entire supply
       ready: () => have($item`magical sausage casing`),
+      readyReason: "Requires a magical sausage casing",
       do: (): void => {
         // Pump-and-grind cannot be used from Left-Hand Man
         if (
@@ -147,7 +153,7 @@ function acquire(qty: number, item: Item, maxPrice?: number, throwOnFail = true)
   if (remaining <= 0) return qty;
   if (maxPrice <= 0) throw `buying disabled for ${item.name}.`;
 
-  buy(remaining, item, maxPrice);
+  purchase(item, remaining, maxPrice);
   if (itemAmount(item) < qty && throwOnFail) throw `Mall price too high for ${item.name}.`;
   return itemAmount(item) - startAmount;
 }
@@ -166,8 +172,7 @@ function eatSafe(qty: number, item: Item, mpa: number) {
   if (!eat(qty, item)) throw "Failed to eat safely";
 }
 
-function drinkSafe(qty: number, item: Item) {
-  const prevDrunk = myInebriety();
+function castOde(qty: number, item: Item) {
   if (have($skill`The Ode to Booze`)) {
     const odeTurns = qty * item.inebriety;
     const castTurns = odeTurns - haveEffect($effect`Ode to Booze`);
@@ -178,6 +183,11 @@ function drinkSafe(qty: number, item: Item) {
       );
     }
   }
+}
+
+function drinkSafe(qty: number, item: Item) {
+  const prevDrunk = myInebriety();
+  castOde(qty, item);
   if (!drink(qty, item)) throw "Failed to drink safely";
   if (item.inebriety === 1 && prevDrunk === qty + myInebriety() - 1) {
     // sometimes mafia does not track the mime army shotglass property
@@ -290,6 +300,35 @@ function menu() {
   ];
 }
 
+/**
+ * Overdrink with the most valuable single booze, to end the day.
+ * Any liver left (e.g. with liver below the inebriety limit) is filled first,
+ * since the adventures carry over to tomorrow.
+ */
+export function nightcap(): void {
+  if (myInebriety() > inebrietyLimit()) return; // Already overdrunk
+
+  const MPA = args.voa;
+  const booze = inebrietyLimit() - myInebriety();
+  if (booze > 0) {
+    print(`Filling the remaining ${booze} liver before the nightcap.`, "blue");
+    consumeDiet(Diet.plan(MPA, menu(), { food: 0, booze: booze, spleen: 0 }), MPA);
+  }
+
+  const options = menu().filter((menuItem) => menuItem.organ === "booze");
+  const best = argmax(
+    options.map((menuItem) => [
+      menuItem.item,
+      getAverageAdventures(menuItem.item) * MPA - mallPrice(menuItem.item),
+    ])
+  );
+  print(`Drinking ${best} as a nightcap.`, "blue");
+  // drink() refuses to go past a full liver, so overdrink directly
+  acquire(1, best, Math.max(1, getAverageAdventures(best) * MPA));
+  castOde(1, best);
+  if (!overdrink(1, best)) throw `Failed to overdrink ${best}`;
+}
+
 function shotglassMenu() {
   return menu().filter((menuItem) => menuItem.size === 1 && menuItem.organ === "booze");
 }
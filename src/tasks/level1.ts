@@ -2,7 +2,9 @@ import { use, visitUrl } from "kolmafia";
 import { $item, have } from "libram";
 import { Quest, step } from "./structure";
 
-export const TootQuest: Quest = {
+export type TootTask = "Start" | "Toot" | "Finish";
+
+export const TootQuest: Quest<"Toot", TootTask> = {
   name: "Toot",
   tasks: [
     {
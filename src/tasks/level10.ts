@@ -3,13 +3,24 @@ import { $effect, $item, $items, $location, $monster, have } from "libram";
 import { CombatStrategy } from "../combat";
 import { Quest, step } from "./structure";
 
-export const GiantQuest: Quest = {
+export type GiantTask =
+  | "Start"
+  | "Grow Beanstalk"
+  | "Airship"
+  | "Basement Search"
+  | "Basement Finish"
+  | "Ground"
+  | "Top Floor"
+  | "Finish";
+
+export const GiantQuest: Quest<"Giant", GiantTask> = {
   name: "Giant",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 10,
+      readyReason: "Requires level 10",
       completed: () => step("questL10Garbage") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -12,10 +12,28 @@ import {
   have,
   Macro,
 } from "libram";
-import { OutfitSpec, Quest, step, Task } from "./structure";
+import { OutfitSpec, Quest, QuestTask, step } from "./structure";
 import { CombatStrategy } from "../combat";
+import { purchase } from "../spending";
 
-const Diary: Task[] = [
+export type MacguffinTask =
+  | "Start"
+  | "Forest"
+  | "Buy Documents"
+  | "Diary"
+  | "Scrip"
+  | "Compass"
+  | "Desert"
+  | "Open Pyramid"
+  | "Upper Chamber"
+  | "Middle Chamber"
+  | "Get Token"
+  | "Get Bomb"
+  | "Use Bomb"
+  | "Boss"
+  | "Finish";
+
+const Diary: QuestTask<MacguffinTask>[] = [
   {
     name: "Forest",
     after: ["Start"],
@@ -53,7 +71,7 @@ const Diary: Task[] = [
   },
 ];
 
-const Desert: Task[] = [
+const Desert: QuestTask<MacguffinTask>[] = [
   {
     name: "Scrip",
     after: ["Misc/Unlock Beach"],
@@ -134,7 +152,7 @@ function rotatePyramid(goal: number): void {
   const to_buy =
     ratchets - itemAmount($item`tomb ratchet`) - itemAmount($item`crumbling wooden wheel`);
   if (to_buy > 0) {
-    buy($item`tomb ratchet`, to_buy);
+    purchase($item`tomb ratchet`, to_buy);
   }
   visitUrl("place.php?whichplace=pyramid&action=pyramid_control");
   for (let i = 0; i < ratchets; i++) {
@@ -148,7 +166,7 @@ function rotatePyramid(goal: number): void {
   visitUrl("choice.php?whichchoice=929&option=5&pwd");
 }
 
-const Pyramid: Task[] = [
+const Pyramid: QuestTask<MacguffinTask>[] = [
   {
     name: "Open Pyramid",
     after: ["Desert", "Manor/Boss", "Palindome/Boss", "Hidden City/Boss"],
@@ -215,13 +233,14 @@ const Pyramid: Task[] = [
   },
 ];
 
-export const MacguffinQuest: Quest = {
+export const MacguffinQuest: Quest<"Macguffin", MacguffinTask> = {
   name: "Macguffin",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 11,
+      readyReason: "Requires level 11",
       completed: () => step("questL11MacGuffin") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
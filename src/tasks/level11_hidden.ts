@@ -1,14 +1,38 @@
 import { cliExecute, myHash, use, visitUrl } from "kolmafia";
 import { $effects, $item, $items, $location, $monster, $monsters, get, have, Macro } from "libram";
-import { Quest, step, Task } from "./structure";
+import { Quest, QuestTask, step } from "./structure";
 import { CombatStrategy } from "../combat";
 import { runawayValue } from "../resources";
 
+export type HiddenTask =
+  | "Forest Coin"
+  | "Forest Map"
+  | "Forest Sapling"
+  | "Open Temple"
+  | "Temple Nostril"
+  | "Open City"
+  | "Open Office"
+  | "Office Files"
+  | "Office Clip"
+  | "Office Boss"
+  | "Finish Office"
+  | "Open Apartment"
+  | "Apartment Files"
+  | "Apartment"
+  | "Finish Apartment"
+  | "Open Hospital"
+  | "Hospital"
+  | "Finish Hospital"
+  | "Open Bowling"
+  | "Bowling"
+  | "Finish Bowling"
+  | "Boss";
+
 function manualChoice(whichchoice: number, option: number) {
   return visitUrl(`choice.php?whichchoice=${whichchoice}&pwd=${myHash()}&option=${option}`);
 }
 
-const Temple: Task[] = [
+const Temple: QuestTask<HiddenTask>[] = [
   {
     name: "Forest Coin",
     after: ["Mosquito/Burn Delay"],
@@ -81,7 +105,7 @@ const Temple: Task[] = [
 
 const use_writ = new Macro().tryItem($item`short writ of habeas corpus`);
 
-const Apartment: Task[] = [
+const Apartment: QuestTask<HiddenTask>[] = [
   {
     name: "Open Apartment",
     after: ["Open City"],
@@ -141,7 +165,7 @@ const Apartment: Task[] = [
   },
 ];
 
-const Office: Task[] = [
+const Office: QuestTask<HiddenTask>[] = [
   {
     name: "Open Office",
     after: ["Open City"],
@@ -223,7 +247,7 @@ const Office: Task[] = [
   },
 ];
 
-const Hospital: Task[] = [
+const Hospital: QuestTask<HiddenTask>[] = [
   {
     name: "Open Hospital",
     after: ["Open City"],
@@ -274,7 +298,7 @@ const Hospital: Task[] = [
   },
 ];
 
-const Bowling: Task[] = [
+const Bowling: QuestTask<HiddenTask>[] = [
   {
     name: "Open Bowling",
     after: ["Open City"],
@@ -311,7 +335,7 @@ const Bowling: Task[] = [
   },
 ];
 
-export const HiddenQuest: Quest = {
+export const HiddenQuest: Quest<"Hidden City", HiddenTask> = {
   name: "Hidden City",
   tasks: [
     ...Temple,
@@ -14,10 +14,34 @@ import {
   have,
   Macro,
 } from "libram";
-import { Quest, step, Task } from "./structure";
+import { Quest, QuestTask, step } from "./structure";
 import { CombatStrategy } from "../combat";
 
-const Manor1: Task[] = [
+export type ManorTask =
+  | "Start"
+  | "Kitchen"
+  | "Billiards"
+  | "Library"
+  | "Finish Floor1"
+  | "Start Floor2"
+  | "Gallery Delay"
+  | "Gallery"
+  | "Bathroom Delay"
+  | "Bathroom"
+  | "Bedroom"
+  | "Open Ballroom"
+  | "Finish Floor2"
+  | "Ballroom Delay"
+  | "Ballroom"
+  | "Learn Recipe"
+  | "Wine Cellar"
+  | "Laundry Room"
+  | "Fulminate"
+  | "Boiler Room"
+  | "Blow Wall"
+  | "Boss";
+
+const Manor1: QuestTask<ManorTask>[] = [
   {
     name: "Kitchen",
     after: ["Start"],
@@ -37,6 +61,7 @@ const Manor1: Task[] = [
     },
     acquire: [{ item: $item`T.U.R.D.S. Key`, num: 1, price: 4000, optional: true }],
     ready: () => myInebriety() <= 15, // Nonnegative contribution
+    readyReason: "Requires inebriety of at most 15",
     do: $location`The Haunted Billiards Room`,
     choices: { 875: 1, 900: 2, 1436: 2 },
     outfit: () => {
@@ -74,7 +99,7 @@ const Manor1: Task[] = [
   },
 ];
 
-const Manor2: Task[] = [
+const Manor2: QuestTask<ManorTask>[] = [
   {
     name: "Start Floor2",
     after: ["Finish Floor1"],
@@ -161,7 +186,7 @@ const Manor2: Task[] = [
   },
 ];
 
-const ManorBasement: Task[] = [
+const ManorBasement: QuestTask<ManorTask>[] = [
   {
     name: "Ballroom Delay",
     after: ["Macguffin/Diary", "Finish Floor2"],
@@ -277,7 +302,7 @@ const ManorBasement: Task[] = [
   },
 ];
 
-export const ManorQuest: Quest = {
+export const ManorQuest: Quest<"Manor", ManorTask> = {
   name: "Manor",
   tasks: [
     {
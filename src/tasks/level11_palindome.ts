@@ -14,9 +14,28 @@ import {
   Macro,
   uneffect,
 } from "libram";
-import { Quest, step, Task } from "./structure";
+import { Quest, QuestTask, step } from "./structure";
 import { CombatStrategy } from "../combat";
 
+export type PalindomeTask =
+  | "Copperhead Start"
+  | "Copperhead"
+  | "Bat Snake"
+  | "Cold Snake"
+  | "Hot Snake Precastle"
+  | "Hot Snake Postcastle"
+  | "Protesters Start"
+  | "Protesters"
+  | "Protesters Finish"
+  | "Zepplin"
+  | "Talisman"
+  | "Palindome Dog"
+  | "Palindome Dudes"
+  | "Palindome Photos"
+  | "Alarm Gem"
+  | "Open Alarm"
+  | "Boss";
+
 function shenItem(item: Item) {
   return (
     get("shenQuestItem") === item.name &&
@@ -24,7 +43,7 @@ function shenItem(item: Item) {
   );
 }
 
-const Copperhead: Task[] = [
+const Copperhead: QuestTask<PalindomeTask>[] = [
   {
     name: "Copperhead Start",
     after: ["Macguffin/Diary"],
@@ -38,6 +57,7 @@ const Copperhead: Task[] = [
     after: ["Copperhead Start"],
     ready: () =>
       step("questL11Shen") === 2 || step("questL11Shen") === 4 || step("questL11Shen") === 6,
+    readyReason: "Requires Shen to ask for the next item",
     completed: () => step("questL11Shen") === 999,
     do: $location`The Copperhead Club`,
     choices: { 852: 1, 853: 1, 854: 1 },
@@ -47,6 +67,7 @@ const Copperhead: Task[] = [
     name: "Bat Snake",
     after: ["Copperhead Start", "Bat/Use Sonar"],
     ready: () => shenItem($item`The Stankara Stone`),
+    readyReason: "Waiting for Shen to ask for The Stankara Stone",
     completed: () => step("questL11Shen") === 999 || have($item`The Stankara Stone`),
     do: $location`The Batrat and Ratbat Burrow`,
     combat: new CombatStrategy().killHard($monster`Batsnake`),
@@ -57,6 +78,7 @@ const Copperhead: Task[] = [
     name: "Cold Snake",
     after: ["Copperhead Start", "McLargeHuge/Ores"],
     ready: () => shenItem($item`The First Pizza`),
+    readyReason: "Waiting for Shen to ask for The First Pizza",
     completed: () => step("questL11Shen") === 999 || have($item`The First Pizza`),
     do: $location`Lair of the Ninja Snowmen`,
     combat: new CombatStrategy().killHard($monster`Frozen Solid Snake`).macro((): Macro => {
@@ -70,6 +92,8 @@ const Copperhead: Task[] = [
     name: "Hot Snake Precastle",
     after: ["Copperhead Start", "Giant/Ground"],
     ready: () => shenItem($item`Murphy's Rancid Black Flag`) && step("questL10Garbage") < 10,
+    readyReason:
+      "Waiting for Shen to ask for Murphy's Rancid Black Flag, before finishing the Castle",
     completed: () => step("questL11Shen") === 999 || have($item`Murphy's Rancid Black Flag`),
     do: $location`The Castle in the Clouds in the Sky (Top Floor)`,
     outfit: { equip: $items`Mohawk wig`, modifier: "-combat" },
@@ -82,6 +106,8 @@ const Copperhead: Task[] = [
     name: "Hot Snake Postcastle",
     after: ["Copperhead Start", "Giant/Ground"],
     ready: () => shenItem($item`Murphy's Rancid Black Flag`) && step("questL10Garbage") >= 10,
+    readyReason:
+      "Waiting for Shen to ask for Murphy's Rancid Black Flag, after finishing the Castle",
     completed: () => step("questL11Shen") === 999 || have($item`Murphy's Rancid Black Flag`),
     do: $location`The Castle in the Clouds in the Sky (Top Floor)`,
     outfit: { modifier: "+combat" },
@@ -91,7 +117,7 @@ const Copperhead: Task[] = [
   },
 ];
 
-const Zepplin: Task[] = [
+const Zepplin: QuestTask<PalindomeTask>[] = [
   {
     name: "Protesters Start",
     after: ["Macguffin/Diary"],
@@ -152,7 +178,7 @@ const Zepplin: Task[] = [
   },
 ];
 
-const Dome: Task[] = [
+const Dome: QuestTask<PalindomeTask>[] = [
   {
     name: "Talisman",
     after: [
@@ -240,7 +266,7 @@ const Dome: Task[] = [
   },
 ];
 
-export const PalindomeQuest: Quest = {
+export const PalindomeQuest: Quest<"Palindome", PalindomeTask> = {
   name: "Palindome",
   tasks: [
     ...Copperhead,
@@ -1,6 +1,5 @@
 import {
   availableAmount,
-  cliExecute,
   create,
   Item,
   itemAmount,
@@ -12,6 +11,9 @@ import {
 import { $item, $items, $location, get } from "libram";
 import { Quest, step } from "./structure";
 import { CombatStrategy } from "../combat";
+import { obtain } from "../spending";
+
+export type WarTask = "Start" | "Enrage" | "Fluffers" | "Boss Hippie" | "Boss Frat";
 
 function ensureFluffers(flufferCount: number): void {
   // From bean-casual
@@ -32,7 +34,7 @@ function ensureFluffers(flufferCount: number): void {
     const [stuffingFlufferSource, sourceMultiplier] = stuffingFlufferSources[0];
 
     const neededOfSource = Math.ceil(neededFluffers * sourceMultiplier);
-    cliExecute(`acquire ${neededOfSource} ${stuffingFlufferSource}`);
+    obtain(stuffingFlufferSource, neededOfSource);
     if (itemAmount(stuffingFlufferSource) < neededOfSource) {
       throw `Unable to acquire ${stuffingFlufferSource}; maybe raising your pricing limit will help?`;
     }
@@ -52,13 +54,14 @@ function clamp(n: number, min: number, max: number): number {
   return Math.max(min, Math.min(n, max));
 }
 
-export const WarQuest: Quest = {
+export const WarQuest: Quest<"War", WarTask> = {
   name: "War",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 12,
+      readyReason: "Requires level 12",
       completed: () => step("questL12War") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -104,6 +107,7 @@ export const WarQuest: Quest = {
       after: ["Fluffers"],
       completed: () => step("questL12War") === 999,
       ready: () => get("hippiesDefeated") >= 1000,
+      readyReason: "Requires 1000 hippies defeated",
       outfit: {
         equip: $items`beer helmet, distressed denim pants, bejeweled pledge pin`,
       },
@@ -119,6 +123,7 @@ export const WarQuest: Quest = {
       after: ["Fluffers"],
       completed: () => step("questL12War") === 999,
       ready: () => get("fratboysDefeated") >= 1000,
+      readyReason: "Requires 1000 frat boys defeated",
       acquire: [
         { item: $item`reinforced beaded headband` },
         { item: $item`bullet-proof corduroys` },
@@ -1,9 +1,42 @@
-import { myLevel, runChoice, useSkill, visitUrl } from "kolmafia";
+import { myLevel, runChoice, visitUrl } from "kolmafia";
 import { $effects, $familiar, $item, $items, $location, $skill, $stat, get, Macro } from "libram";
 import { CombatStrategy } from "../combat";
-import { Quest, step, Task } from "./structure";
+import { heal } from "../restore";
+import { Quest, QuestTask, step } from "./structure";
 
-const Challenges: Task[] = [
+export type TowerTask =
+  | "Start"
+  | "Speed Challenge"
+  | "Moxie Challenge"
+  | "Muscle Challenge"
+  | "Mysticality Challenge"
+  | "Hot Challenge"
+  | "Cold Challenge"
+  | "Spooky Challenge"
+  | "Stench Challenge"
+  | "Sleaze Challenge"
+  | "Speed Boss"
+  | "Stat Boss"
+  | "Element Boss"
+  | "Coronation"
+  | "Frank"
+  | "Maze"
+  | "Boris Lock"
+  | "Jarlsberg Lock"
+  | "Sneaky Pete Lock"
+  | "Star Lock"
+  | "Digital Lock"
+  | "Skeleton Lock"
+  | "Door"
+  | "Wall of Skin"
+  | "Wall of Meat"
+  | "Wall of Bones"
+  | "Mirror"
+  | "Shadow"
+  | "Naughty Sorceress"
+  | "Finish";
+
+const Challenges: QuestTask<TowerTask>[] = [
   {
     name: "Speed Challenge",
     after: ["Start"],
@@ -21,6 +54,7 @@ const Challenges: Task[] = [
     name: "Moxie Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge1") === $stat`Moxie`,
+    readyReason: "Requires the Moxie contest",
     completed: () => get("nsContestants2") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -35,6 +69,7 @@ const Challenges: Task[] = [
     name: "Muscle Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge1") === $stat`Muscle`,
+    readyReason: "Requires the Muscle contest",
     completed: () => get("nsContestants2") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -49,6 +84,7 @@ const Challenges: Task[] = [
     name: "Mysticality Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge1") === $stat`Mysticality`,
+    readyReason: "Requires the Mysticality contest",
     completed: () => get("nsContestants2") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -63,6 +99,7 @@ const Challenges: Task[] = [
     name: "Hot Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge2") === "hot",
+    readyReason: "Requires the hot contest",
     completed: () => get("nsContestants3") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -77,6 +114,7 @@ const Challenges: Task[] = [
     name: "Cold Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge2") === "cold",
+    readyReason: "Requires the cold contest",
     completed: () => get("nsContestants3") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -91,6 +129,7 @@ const Challenges: Task[] = [
     name: "Spooky Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge2") === "spooky",
+    readyReason: "Requires the spooky contest",
     completed: () => get("nsContestants3") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -105,6 +144,7 @@ const Challenges: Task[] = [
     name: "Stench Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge2") === "stench",
+    readyReason: "Requires the stench contest",
     completed: () => get("nsContestants3") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -119,6 +159,7 @@ const Challenges: Task[] = [
     name: "Sleaze Challenge",
     after: ["Start"],
     ready: () => get("nsChallenge2") === "sleaze",
+    readyReason: "Requires the sleaze contest",
     completed: () => get("nsContestants3") > -1,
     do: (): void => {
       visitUrl("place.php?whichplace=nstower&action=ns_01_contestbooth");
@@ -131,7 +172,7 @@ const Challenges: Task[] = [
   },
 ];
 
-const ChallengeBosses: Task[] = [
+const ChallengeBosses: QuestTask<TowerTask>[] = [
   {
     name: "Speed Boss",
     after: ["Speed Challenge"],
@@ -164,7 +205,7 @@ const ChallengeBosses: Task[] = [
   },
 ];
 
-const Door: Task[] = [
+const Door: QuestTask<TowerTask>[] = [
   {
     name: "Boris Lock",
     after: ["Maze", "Keys/Finish"],
@@ -236,7 +277,7 @@ const Door: Task[] = [
   },
 ];
 
-export const TowerQuest: Quest = {
+export const TowerQuest: Quest<"Tower", TowerTask> = {
   name: "Tower",
   tasks: [
     {
@@ -256,6 +297,7 @@ export const TowerQuest: Quest = {
         "War/Boss Frat",
       ],
       ready: () => myLevel() >= 13,
+      readyReason: "Requires level 13",
       completed: () => step("questL13Final") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -289,7 +331,7 @@ export const TowerQuest: Quest = {
       name: "Maze",
       after: ["Frank"],
       completed: () => step("questL13Final") > 4,
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       do: $location`The Hedge Maze`,
       choices: { 1004: 1, 1005: 2, 1008: 2, 1011: 2, 1013: 1, 1022: 1 },
       outfit: {
@@ -302,7 +344,7 @@ export const TowerQuest: Quest = {
     {
       name: "Wall of Skin",
       after: ["Door"],
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       completed: () => step("questL13Final") > 6,
       do: $location`Tower Level 1`,
       effects: $effects`Spiky Shell, Jalapeño Saucesphere, Psalm of Pointiness, Scarysauce`,
@@ -313,7 +355,7 @@ export const TowerQuest: Quest = {
     {
       name: "Wall of Meat",
       after: ["Wall of Skin"],
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       completed: () => step("questL13Final") > 7,
       do: $location`Tower Level 2`,
       outfit: { modifier: "meat", skipDefaults: true },
@@ -323,7 +365,7 @@ export const TowerQuest: Quest = {
     {
       name: "Wall of Bones",
       after: ["Wall of Meat"],
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       completed: () => step("questL13Final") > 8,
       do: $location`Tower Level 3`,
       outfit: { modifier: "spell dmg" },
@@ -344,7 +386,7 @@ export const TowerQuest: Quest = {
       name: "Shadow",
       after: ["Mirror"],
       acquire: [{ item: $item`gauze garter`, num: 6 }],
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       completed: () => step("questL13Final") > 10,
       do: $location`Tower Level 5`,
       outfit: { modifier: "init" },
@@ -356,7 +398,7 @@ export const TowerQuest: Quest = {
     {
       name: "Naughty Sorceress",
       after: ["Shadow"],
-      prepare: () => useSkill($skill`Cannelloni Cocoon`),
+      prepare: heal,
       completed: () => step("questL13Final") > 11,
       do: $location`The Naughty Sorceress' Chamber`,
       outfit: { modifier: "muscle" },
@@ -2,13 +2,16 @@ import { myLevel, visitUrl } from "kolmafia";
 import { $location } from "libram";
 import { Quest, step } from "./structure";
 
-export const MosquitoQuest: Quest = {
+export type MosquitoTask = "Start" | "Burn Delay" | "Mosquito" | "Finish";
+
+export const MosquitoQuest: Quest<"Mosquito", MosquitoTask> = {
   name: "Mosquito",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 2,
+      readyReason: "Requires level 2",
       completed: () => step("questL02Larva") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -3,13 +3,16 @@ import { $effects } from "libram";
 import { CombatStrategy } from "../combat";
 import { Quest, step } from "./structure";
 
-export const TavernQuest: Quest = {
+export type TavernTask = "Start" | "Tavernkeep" | "Basement" | "Finish";
+
+export const TavernQuest: Quest<"Tavern", TavernTask> = {
   name: "Tavern",
   tasks: [
     {
       name: "Start",
       after: ["Mosquito/Finish"],
       ready: () => myLevel() >= 3,
+      readyReason: "Requires level 3",
       completed: () => step("questL03Rat") >= 0,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
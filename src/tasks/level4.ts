@@ -3,13 +3,16 @@ import { $item, $location, $monster } from "libram";
 import { Quest, step } from "./structure";
 import { CombatStrategy } from "../combat";
 
-export const BatQuest: Quest = {
+export type BatTask = "Start" | "Use Sonar" | "Boss Bat" | "Finish";
+
+export const BatQuest: Quest<"Bat", BatTask> = {
   name: "Bat",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 4,
+      readyReason: "Requires level 4",
       completed: () => step("questL04Bat") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -3,13 +3,16 @@ import { $effects, $item, $location, $monster, have } from "libram";
 import { Quest, step } from "./structure";
 import { CombatStrategy } from "../combat";
 
-export const KnobQuest: Quest = {
+export type KnobTask = "Start" | "Outskirts" | "Open Knob" | "King";
+
+export const KnobQuest: Quest<"Knob", KnobTask> = {
   name: "Knob",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 5,
+      readyReason: "Requires level 5",
       completed: () => step("questL05Goblin") >= 0,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -3,13 +3,26 @@ import { $item, $items, $location, $monsters, $skill, have } from "libram";
 import { CombatStrategy } from "../combat";
 import { Quest, step } from "./structure";
 
-export const FriarQuest: Quest = {
+export type FriarTask = "Start" | "Heart" | "Neck" | "Elbow" | "Finish";
+
+export type OrganTask =
+  | "Start"
+  | "Tutu"
+  | "Arena"
+  | "Unicorn"
+  | "Comedy Club"
+  | "Lollipop"
+  | "Azazel"
+  | "Finish";
+
+export const FriarQuest: Quest<"Friar", FriarTask> = {
   name: "Friar",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 6,
+      readyReason: "Requires level 6",
       completed: () => step("questL06Friar") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -51,7 +64,7 @@ export const FriarQuest: Quest = {
   ],
 };
 
-export const OrganQuest: Quest = {
+export const OrganQuest: Quest<"Organ", OrganTask> = {
   name: "Organ",
   tasks: [
     {
@@ -23,8 +23,23 @@ import {
   have,
   Macro,
 } from "libram";
-import { OutfitSpec, Quest, step, Task } from "./structure";
-import { CombatStrategy } from "../combat";
+import { OutfitSpec, Quest, QuestTask, step } from "./structure";
+import { CombatStrategy, spellKillMacro } from "../combat";
+
+export type CryptTask =
+  | "Start"
+  | "Alcove"
+  | "Alcove Boss"
+  | "Cranny"
+  | "Cranny Boss"
+  | "Niche"
+  | "Niche Boss"
+  | "Nook"
+  | "Nook Eye"
+  | "Nook Simple"
+  | "Nook Boss"
+  | "Bonerdagon"
+  | "Finish";
 
 function tuneCape(): void {
   if (
@@ -48,7 +63,7 @@ const slay_macro = new Macro()
   .attack()
   .repeat();
 
-const Alcove: Task[] = [
+const Alcove: QuestTask<CryptTask>[] = [
   {
     name: "Alcove",
     after: ["Start"],
@@ -91,7 +106,7 @@ const Alcove: Task[] = [
   },
 ];
 
-const Cranny: Task[] = [
+const Cranny: QuestTask<CryptTask>[] = [
   {
     name: "Cranny",
     after: ["Start"],
@@ -108,10 +123,7 @@ const Cranny: Task[] = [
     choices: { 523: 4 },
     combat: new CombatStrategy()
       .macro(
-        new Macro()
-          .trySkill($skill`Slay the Dead`)
-          .skill($skill`Saucegeyser`)
-          .repeat(),
+        () => new Macro().trySkill($skill`Slay the Dead`).step(spellKillMacro()),
         ...$monsters`swarm of ghuol whelps, big swarm of ghuol whelps, giant swarm of ghuol whelps, huge ghuol`
       )
       .macro(slay_macro),
@@ -127,7 +139,7 @@ const Cranny: Task[] = [
   },
 ];
 
-const Niche: Task[] = [
+const Niche: QuestTask<CryptTask>[] = [
   {
     name: "Niche",
     after: ["Start"],
@@ -163,7 +175,7 @@ const Niche: Task[] = [
   },
 ];
 
-const Nook: Task[] = [
+const Nook: QuestTask<CryptTask>[] = [
   {
     name: "Nook",
     after: ["Start"],
@@ -171,6 +183,7 @@ const Nook: Task[] = [
     prepare: tuneCape,
     acquire: [{ item: $item`gravy boat` }],
     ready: () => get("camelSpit") >= 100 || !have($familiar`Melodramedary`),
+    readyReason: "Waiting for the Melodramedary to fill its spit",
     completed: () => get("cyrptNookEvilness") <= 25,
     do: (): void => {
       useSkill($skill`Map the Monsters`);
@@ -223,6 +236,7 @@ const Nook: Task[] = [
     name: "Nook Eye", // In case we get eyes from outside sources (Nostalgia)
     after: ["Start"],
     ready: () => have($item`evil eye`),
+    readyReason: "Requires an evil eye",
     completed: () => get("cyrptNookEvilness") <= 25,
     do: (): void => {
       cliExecute("use * evil eye");
@@ -236,6 +250,7 @@ const Nook: Task[] = [
     prepare: tuneCape,
     acquire: [{ item: $item`gravy boat` }],
     ready: () => get("cyrptNookEvilness") < 30 && !have($item`evil eye`),
+    readyReason: "Waiting for the Nook evilness to drop below 30",
     completed: () => get("cyrptNookEvilness") <= 25,
     do: $location`The Defiled Nook`,
     post: (): void => {
@@ -263,13 +278,14 @@ const Nook: Task[] = [
   },
 ];
 
-export const CryptQuest: Quest = {
+export const CryptQuest: Quest<"Crypt", CryptTask> = {
   name: "Crypt",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 7,
+      readyReason: "Requires level 7",
       completed: () => step("questL07Cyrptic") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
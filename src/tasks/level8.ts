@@ -3,13 +3,16 @@ import { $item, $location } from "libram";
 import { Quest, step } from "./structure";
 import { CombatStrategy } from "../combat";
 
-export const McLargeHugeQuest: Quest = {
+export type McLargeHugeTask = "Start" | "Ores" | "Climb" | "Peak" | "Finish";
+
+export const McLargeHugeQuest: Quest<"McLargeHuge", McLargeHugeTask> = {
   name: "McLargeHuge",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 8,
+      readyReason: "Requires level 8",
       completed: () => step("questL08Trapper") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
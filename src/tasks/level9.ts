@@ -1,4 +1,4 @@
-import { cliExecute, floor, itemAmount, myLevel, use, visitUrl } from "kolmafia";
+import { floor, itemAmount, myLevel, use, visitUrl } from "kolmafia";
 import {
   $effect,
   $effects,
@@ -12,10 +12,27 @@ import {
   Macro,
   SourceTerminal,
 } from "libram";
-import { OutfitSpec, Quest, step, Task } from "./structure";
+import { OutfitSpec, Quest, QuestTask, step } from "./structure";
 import { CombatStrategy } from "../combat";
+import { obtain } from "../spending";
 
-const ABoo: Task[] = [
+export type ChasmTask =
+  | "Start"
+  | "Bridge"
+  | "Start Peaks"
+  | "ABoo Start"
+  | "ABoo Clues"
+  | "ABoo Horror"
+  | "ABoo Peak"
+  | "Oil Kill"
+  | "Oil Peak"
+  | "Twin Stench"
+  | "Twin Item"
+  | "Twin Oil"
+  | "Twin Init"
+  | "Finish";
+
+const ABoo: QuestTask<ChasmTask>[] = [
   {
     name: "ABoo Start",
     after: ["Start Peaks"],
@@ -75,6 +92,7 @@ const ABoo: Task[] = [
     name: "ABoo Horror",
     after: ["ABoo Clues"],
     ready: () => have($item`A-Boo clue`),
+    readyReason: "Requires an A-Boo clue",
     completed: () => get("booPeakProgress") === 0,
     prepare: () => {
       use($item`A-Boo clue`);
@@ -93,7 +111,7 @@ const ABoo: Task[] = [
   },
 ];
 
-const Oil: Task[] = [
+const Oil: QuestTask<ChasmTask>[] = [
   {
     name: "Oil Kill",
     after: ["Start Peaks"],
@@ -112,7 +130,7 @@ const Oil: Task[] = [
   },
 ];
 
-const Twin: Task[] = [
+const Twin: QuestTask<ChasmTask>[] = [
   {
     name: "Twin Stench",
     after: ["Start Peaks"],
@@ -161,13 +179,14 @@ const Twin: Task[] = [
   },
 ];
 
-export const ChasmQuest: Quest = {
+export const ChasmQuest: Quest<"Orc Chasm", ChasmTask> = {
   name: "Orc Chasm",
   tasks: [
     {
       name: "Start",
       after: [],
       ready: () => myLevel() >= 9,
+      readyReason: "Requires level 9",
       completed: () => step("questL09Topping") !== -1,
       do: () => visitUrl("council.php"),
       limit: { tries: 1 },
@@ -182,7 +201,7 @@ export const ChasmQuest: Quest = {
         visitUrl(`place.php?whichplace=orc_chasm&action=bridge${get("chasmBridgeProgress")}`); // use existing materials
         const count = floor((34 - get("chasmBridgeProgress")) / 5);
         if (count <= 0) return;
-        cliExecute(`acquire ${count} snow boards`);
+        obtain($item`snow boards`, count);
         visitUrl(`place.php?whichplace=orc_chasm&action=bridge${get("chasmBridgeProgress")}`);
       },
       acquire: [{ item: $item`snow berries`, num: 12 }],
@@ -7,7 +7,6 @@ import {
   runChoice,
   runCombat,
   totalFreeRests,
-  useSkill,
   visitUrl,
 } from "kolmafia";
 import {
@@ -30,9 +29,24 @@ import {
   Witchess,
 } from "libram";
 import { Quest } from "./structure";
-import { CombatStrategy } from "../combat";
+import { CombatStrategy, spellKillMacro } from "../combat";
+import { heal } from "../restore";
 import { args } from "../main";
 
+export type LevelingTask =
+  | "Cloud Talk"
+  | "Daycare"
+  | "Bastille"
+  | "Chateau"
+  | "LOV Tunnel"
+  | "Snojo"
+  | "God Lobster"
+  | "Witchess"
+  | "Sausage Fights"
+  | "Neverending Party"
+  | "Machine Elf"
+  | "Leaflet";
+
 function primestatId(): number {
   switch (myPrimestat()) {
     case $stat`Muscle`:
@@ -45,13 +59,14 @@ function primestatId(): number {
   return 1;
 }
 
-export const LevelingQuest: Quest = {
+export const LevelingQuest: Quest<"Leveling", LevelingTask> = {
   name: "Leveling",
   tasks: [
     {
       name: "Cloud Talk",
       after: [],
       ready: () => get("getawayCampsiteUnlocked"),
+      readyReason: "Requires the Getaway Campsite",
       completed: () => have($effect`That's Just Cloud-Talk, Man`) || myLevel() >= args.levelto,
       do: () => visitUrl("place.php?whichplace=campaway&action=campaway_sky"),
       freeaction: true,
@@ -61,6 +76,7 @@ export const LevelingQuest: Quest = {
       name: "Daycare",
       after: [],
       ready: () => get("daycareOpen"),
+      readyReason: "Requires the Boxing Daycare",
       completed: () => get("_daycareGymScavenges") !== 0 || myLevel() >= args.levelto,
       do: (): void => {
         if ((get("daycareOpen") || get("_daycareToday")) && !get("_daycareSpa")) {
@@ -87,6 +103,7 @@ export const LevelingQuest: Quest = {
       name: "Bastille",
       after: [],
       ready: () => have($item`Bastille Battalion control rig`),
+      readyReason: "Requires the Bastille Battalion",
       completed: () => get("_bastilleGames") !== 0 || myLevel() >= args.levelto,
       do: () =>
         cliExecute(`bastille ${myPrimestat() === $stat`Mysticality` ? "myst" : myPrimestat()}`),
@@ -100,6 +117,7 @@ export const LevelingQuest: Quest = {
       name: "Chateau",
       after: [],
       ready: () => ChateauMantegna.have(),
+      readyReason: "Requires the Chateau Mantegna",
       completed: () => get("timesRested") >= totalFreeRests() || myLevel() >= args.levelto,
       prepare: (): void => {
         if (myPrimestat() === $stat`Muscle`) {
@@ -121,16 +139,12 @@ export const LevelingQuest: Quest = {
       name: "LOV Tunnel",
       after: [],
       ready: () => get("loveTunnelAvailable"),
+      readyReason: "Requires the LOV Tunnel",
       completed: () => get("_loveTunnelUsed") || myLevel() >= args.levelto,
       do: $location`The Tunnel of L.O.V.E.`,
       choices: { 1222: 1, 1223: 1, 1224: primestatId(), 1225: 1, 1226: 2, 1227: 1, 1228: 3 },
       combat: new CombatStrategy()
-        .macro(() =>
-          new Macro().externalIf(
-            myPrimestat() === $stat`mysticality`,
-            new Macro().skill($skill`Saucestorm`).repeat()
-          )
-        )
+        .macro(() => new Macro().externalIf(myPrimestat() === $stat`mysticality`, spellKillMacro()))
         .killHard(),
       outfit: {
         modifier: "mainstat, 4exp",
@@ -144,6 +158,7 @@ export const LevelingQuest: Quest = {
       name: "Snojo",
       after: [],
       ready: () => get("snojoAvailable"),
+      readyReason: "Requires the Snojo",
       prepare: (): void => {
         if (get("snojoSetting") === null) {
           visitUrl("place.php?whichplace=snojo&action=snojo_controller");
@@ -153,7 +168,7 @@ export const LevelingQuest: Quest = {
           ensureEffect($effect`Super Skill`); // after GAP are equipped
         }
         cliExecute("uneffect ode to booze");
-        if (myHp() < myMaxhp()) useSkill($skill`Cannelloni Cocoon`);
+        if (myHp() < myMaxhp()) heal();
       },
       completed: () => get("_snojoFreeFights") >= 10 || myLevel() >= 13,
       do: $location`The X-32-F Combat Training Snowman`,
@@ -162,7 +177,13 @@ export const LevelingQuest: Quest = {
       },
       combat: new CombatStrategy()
         .macro((): Macro => {
-          if (have($familiar`Frumious Bandersnatch`) && have($item`Greatest American Pants`)) {
+          if (
+            have($familiar`Frumious Bandersnatch`) &&
+            have($item`Greatest American Pants`) &&
+            have($skill`Curse of Weaksauce`) &&
+            have($skill`Stuffed Mortar Shell`) &&
+            have($skill`Cannelloni Cannon`)
+          ) {
             // Grind exp for Bandersnatch
             return new Macro()
               .skill($skill`Curse of Weaksauce`)
@@ -173,7 +194,7 @@ export const LevelingQuest: Quest = {
               .repeat();
           } else {
             // no need to grind exp
-            return new Macro().skill($skill`Saucegeyser`).repeat();
+            return spellKillMacro();
           }
         })
         .killHard(),
@@ -191,6 +212,7 @@ export const LevelingQuest: Quest = {
       after: [],
       acquire: [{ item: $item`makeshift garbage shirt` }],
       ready: () => have($familiar`God Lobster`),
+      readyReason: "Requires the God Lobster",
       completed: () => get("_godLobsterFights") >= 3 || myLevel() >= args.levelto,
       do: (): void => {
         visitUrl("main.php?fightgodlobster=1");
@@ -210,6 +232,7 @@ export const LevelingQuest: Quest = {
       name: "Witchess",
       after: [],
       ready: () => Witchess.have(),
+      readyReason: "Requires the Witchess set",
       completed: () => Witchess.fightsDone() >= 5 || myLevel() >= args.levelto,
       do: () => Witchess.fightPiece($monster`Witchess Knight`),
       combat: new CombatStrategy().killHard(),
@@ -229,6 +252,7 @@ export const LevelingQuest: Quest = {
         have($familiar`Pocket Professor`) &&
         have($item`Kramco Sausage-o-Matic™`) &&
         getKramcoWandererChance() === 1,
+      readyReason: "Requires the Pocket Professor and a guaranteed sausage goblin",
       completed: () => get("_sausageFights") > 0 || myLevel() >= args.levelto || !args.professor,
       do: $location`The Outskirts of Cobb's Knob`,
       combat: new CombatStrategy()
@@ -283,6 +307,7 @@ export const LevelingQuest: Quest = {
       after: [],
       acquire: [{ item: $item`makeshift garbage shirt` }],
       ready: () => have($familiar`Machine Elf`),
+      readyReason: "Requires the Machine Elf",
       completed: () => get("_machineTunnelsAdv") >= 5 || myLevel() >= args.levelto,
       do: $location`The Deep Machine Tunnels`,
       combat: new CombatStrategy().killHard(),
@@ -298,6 +323,7 @@ export const LevelingQuest: Quest = {
       name: "Leaflet",
       after: [],
       ready: () => myLevel() >= 9,
+      readyReason: "Requires level 9",
       completed: () => get("leafletCompleted"),
       do: (): void => {
         visitUrl("council.php");
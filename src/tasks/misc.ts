@@ -6,7 +6,6 @@ import {
   itemAmount,
   myBasestat,
   myPrimestat,
-  retrieveItem,
   retrievePrice,
   runChoice,
   use,
@@ -32,16 +31,30 @@ import {
   uneffect,
 } from "libram";
 import { CombatStrategy } from "../combat";
+import { obtain } from "../spending";
 import { OutfitSpec, Quest, step } from "./structure";
 
-export const MiscQuest: Quest = {
+export type MiscTask =
+  | "Unlock Beach"
+  | "Unlock Island"
+  | "Floundry"
+  | "Short Cook"
+  | "Acquire Kgnee"
+  | "Acquire FamEquip"
+  | "Voting"
+  | "Protonic Ghost"
+  | "Goose Exp";
+
+export type KeysTask = "Deck" | "Lockpicking" | "Malware" | "Daily Dungeon" | "Finish";
+
+export const MiscQuest: Quest<"Misc", MiscTask> = {
   name: "Misc",
   tasks: [
     {
       name: "Unlock Beach",
       after: [],
       completed: () => have($item`bitchin' meatcar`) || have($item`Desert Bus pass`),
-      do: () => cliExecute("acquire 1 bitchin' meatcar"),
+      do: () => obtain($item`bitchin' meatcar`),
       limit: { tries: 1 },
       freeaction: true,
     },
@@ -65,7 +78,7 @@ export const MiscQuest: Quest = {
             runChoice(1);
           }
         }
-        retrieveItem(bestChoice);
+        obtain(bestChoice);
       },
       limit: { tries: 1 },
       freeaction: true,
@@ -83,7 +96,7 @@ export const MiscQuest: Quest = {
           // Recheck if the script is rerun with a new clan
           set("_loop_casual_floundry_checked", Clan.get().name);
         } else {
-          cliExecute("acquire 1 fish hatchet");
+          obtain($item`fish hatchet`);
         }
       },
       limit: { tries: 1 },
@@ -93,6 +106,7 @@ export const MiscQuest: Quest = {
       name: "Short Cook",
       after: [],
       ready: () => have($familiar`Shorter-Order Cook`),
+      readyReason: "Requires the Shorter-Order Cook",
       completed: () =>
         familiarEquippedEquipment($familiar`Shorter-Order Cook`) === $item`blue plate`,
       acquire: [{ item: $item`blue plate` }],
@@ -108,6 +122,7 @@ export const MiscQuest: Quest = {
         have($familiar`Reagnimated Gnome`) &&
         !have($item`gnomish housemaid's kgnee`) &&
         !get("_loopcasual_checkedGnome", false),
+      readyReason: "Requires the Reagnimated Gnome, if its kgnee was not checked today",
       completed: () =>
         !have($familiar`Reagnimated Gnome`) ||
         have($item`gnomish housemaid's kgnee`) ||
@@ -126,6 +141,7 @@ export const MiscQuest: Quest = {
       ready: () =>
         $items`astral pet sweater, amulet coin, luck incense`.some((item) => !have(item)) &&
         $familiars`Mu, Cornbeefadon`.some(have),
+      readyReason: "Requires a familiar to trade for missing familiar equipment",
       completed: () =>
         $items`astral pet sweater, amulet coin, luck incense`.some((item) => have(item)) ||
         !$familiars`Mu, Cornbeefadon`.some(have),
@@ -133,7 +149,7 @@ export const MiscQuest: Quest = {
         const famToUse = $familiars`Mu, Cornbeefadon`.find(have);
         if (famToUse) {
           useFamiliar(famToUse);
-          retrieveItem($item`box of Familiar Jacks`);
+          obtain($item`box of Familiar Jacks`);
           use($item`box of Familiar Jacks`);
         }
       },
@@ -143,6 +159,7 @@ export const MiscQuest: Quest = {
       name: "Voting",
       after: [],
       ready: () => get("voteAlways"),
+      readyReason: "Requires the voting booth",
       completed: () => have($item`"I Voted!" sticker`) || get("_voteToday"),
       do: (): void => {
         // Taken from garbo
@@ -261,6 +278,7 @@ export const MiscQuest: Quest = {
         }
         return false;
       },
+      readyReason: "Requires a protonic ghost in an accessible zone",
       prepare: () => {
         // Start quests if needed
         switch (get("ghostLocation")) {
@@ -340,7 +358,7 @@ function keyCount(): number {
   if (have($item`Sneaky Pete's key`) || get("nsTowerDoorKeysUsed").includes("Sneaky Pete")) count++;
   return count;
 }
-export const KeysQuest: Quest = {
+export const KeysQuest: Quest<"Keys", KeysTask> = {
   name: "Keys",
   tasks: [
     {
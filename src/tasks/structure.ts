@@ -2,11 +2,7 @@ import { Effect, Familiar, Item, Location } from "kolmafia";
 import { get } from "libram";
 import { StringProperty } from "libram/dist/propertyTypes";
 import { CombatStrategy } from "../combat";
-
-export type Quest = {
-  name: string;
-  tasks: Task[];
-};
+import { TaskId } from "./all";
 
 export type AcquireItem = {
   item: Item;
@@ -35,6 +31,7 @@ export type Task = {
   name: string;
   after: string[];
   ready?: () => boolean;
+  readyReason?: string; // What ready() is waiting for, for diagnostics
   priority?: () => boolean;
   prepare?: () => void;
   completed: () => boolean;
@@ -52,6 +49,23 @@ export type Task = {
   noadventures?: boolean;
 };
 
+/**
+ * A task as defined within a quest. Dependencies are given by task name within
+ * the same quest, or by full id (e.g. "Palindome/Zepplin") for other quests.
+ */
+export type QuestTask<N extends string = string> = Omit<Task, "name" | "after"> & {
+  name: N;
+  after: (N | TaskId)[];
+};
+
+/**
+ * A quest, typed by its name and the names of its tasks.
+ */
+export type Quest<Q extends string = string, N extends string = string> = {
+  name: Q;
+  tasks: QuestTask<N>[];
+};
+
 export function step(questName: StringProperty): number {
   const stringStep = get(questName);
   if (stringStep === "unstarted") return -1;
@@ -0,0 +1,161 @@
+import { debug } from "./lib";
+import { applyRouteOverrides, RouteOverride, routing } from "./route";
+import { all_quests, all_tasks, goalQuests } from "./tasks/all";
+import { Quest } from "./tasks/structure";
+
+type TaskGraph = Map<string, string[]>;
+
+// Full name of a task or dependency, matching the names given by buildTaskList
+function qualify(quest: Quest, name: string): string {
+  return name.includes("/") ? name : `${quest.name}/${name}`;
+}
+
+function buildGraph(quests: Quest[]): TaskGraph {
+  const graph: TaskGraph = new Map();
+  for (const quest of quests) {
+    for (const task of quest.tasks) {
+      graph.set(
+        qualify(quest, task.name),
+        task.after.map((after) => qualify(quest, after))
+      );
+    }
+  }
+  return graph;
+}
+
+/**
+ * Locate all dependency cycles in the task graph.
+ * @returns A list of cycles, each given as the path of tasks around the cycle.
+ */
+function findCycles(graph: TaskGraph): string[][] {
+  const cycles: string[][] = [];
+  const finished = new Set<string>();
+  const path: string[] = [];
+
+  function visit(task: string) {
+    const index = path.indexOf(task);
+    if (index !== -1) {
+      cycles.push([...path.slice(index), task]);
+      return;
+    }
+    if (finished.has(task) || !graph.has(task)) return;
+    path.push(task);
+    for (const after of graph.get(task) ?? []) visit(after);
+    path.pop();
+    finished.add(task);
+  }
+  for (const task of graph.keys()) visit(task);
+  return cycles;
+}
+
+/**
+ * Check the combined task graph, along with the routing and each goal, for problems.
+ * @param quests All quests defined by the script.
+ * @param goals The quests included by each goal.
+ * @param route The routing list of task names.
+ * @returns A description of each problem found.
+ */
+export function findProblems(
+  quests: Quest[],
+  goals: { [goal: string]: Quest[] },
+  route: string[]
+): string[] {
+  const problems: string[] = [];
+  const all = new Set<Quest>(quests);
+  for (const goal in goals) goals[goal].forEach((quest) => all.add(quest));
+  const graph = buildGraph(Array.from(all));
+
+  // Duplicate task names
+  const seen = new Set<string>();
+  for (const quest of all) {
+    for (const task of quest.tasks) {
+      const name = qualify(quest, task.name);
+      if (seen.has(name)) problems.push(`Task ${name} is defined more than once`);
+      seen.add(name);
+    }
+  }
+
+  // Dependencies on tasks that do not exist
+  graph.forEach((afters, task) => {
+    for (const after of afters) {
+      if (!graph.has(after)) problems.push(`Task ${task} depends on unknown task ${after}`);
+    }
+  });
+
+  // Dependency cycles
+  const cycles = findCycles(graph);
+  for (const cycle of cycles) problems.push(`Dependency cycle: ${cycle.join(" -> ")}`);
+
+  // Tasks that can never become available, since they depend on a cycle
+  const blocked = new Set<string>(([] as string[]).concat(...cycles));
+  let changed = true;
+  while (changed) {
+    changed = false;
+    graph.forEach((afters, task) => {
+      if (!blocked.has(task) && afters.some((after) => blocked.has(after))) {
+        blocked.add(task);
+        changed = true;
+      }
+    });
+  }
+  for (const task of blocked)
+    problems.push(`Task ${task} can never become available, since it depends on a cycle`);
+
+  // Tasks that no goal includes, either directly or as a dependency
+  const reachable = new Set<string>();
+  const to_visit: string[] = [];
+  for (const goal in goals) to_visit.push(...buildGraph(goals[goal]).keys());
+  while (to_visit.length > 0) {
+    const task = to_visit.pop() as string;
+    if (reachable.has(task)) continue;
+    reachable.add(task);
+    to_visit.push(...(graph.get(task) ?? []));
+  }
+  graph.forEach((_, task) => {
+    if (!reachable.has(task)) problems.push(`Task ${task} is unreachable from any goal`);
+  });
+
+  // Routing entries that are repeated or name no task
+  const routed = new Set<string>();
+  for (const entry of route) {
+    if (routed.has(entry)) problems.push(`Routing entry ${entry} appears more than once`);
+    if (!graph.has(entry)) problems.push(`Routing entry ${entry} is not a known task`);
+    routed.add(entry);
+  }
+
+  // Dependencies that cross out of the tasks included by a goal
+  for (const goal in goals) {
+    const included = buildGraph(goals[goal]);
+    included.forEach((afters, task) => {
+      for (const after of afters) {
+        if (graph.has(after) && !included.has(after))
+          problems.push(`Goal ${goal}: task ${task} depends on ${after}, which is not included`);
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Validate the task graph, printing a report of all problems.
+ * Throws if any problems are found.
+ * @param overrides The routing overrides from the routing profile, if any.
+ */
+export function validate(overrides?: RouteOverride[]): void {
+  const override_problems: string[] = [];
+  const known = new Set([...routing, ...all_tasks().map((task) => task.name)]);
+  const route =
+    overrides === undefined
+      ? routing
+      : applyRouteOverrides(routing, overrides, known, override_problems);
+  const problems = [...findProblems(all_quests, goalQuests(), route), ...override_problems];
+  if (problems.length === 0) {
+    debug("Task graph is valid.", "blue");
+    return;
+  }
+
+  debug("Task graph problems:", "red");
+  for (const problem of problems) debug(`  ${problem}`, "red");
+  throw `Found ${problems.length} problems in the task graph.`;
+}
@@ -0,0 +1,31 @@
+import { Engine } from "./engine";
+import { debug } from "./lib";
+import { Task } from "./tasks/structure";
+
+/**
+ * Describe whether the task can be executed right now, and if not, why.
+ */
+export function explain(engine: Engine, task: Task): string {
+  if (task.completed()) return `${task.name}: completed`;
+  const blockers = engine.blockers(task);
+  return `${task.name}: ${blockers.length > 0 ? blockers.join(", ") : "available"}`;
+}
+
+/**
+ * Print why each of the given tasks is not available, along with the reasons
+ * for any incomplete dependencies that are blocking them.
+ * @param task_names The full names of the tasks to explain.
+ */
+export function printWhy(engine: Engine, task_names: Set<string>): void {
+  const explained = new Set<string>();
+  const visit = (task: Task, depth: number) => {
+    if (explained.has(task.name)) return;
+    explained.add(task.name);
+    debug(`${"  ".repeat(depth)}${explain(engine, task)}`);
+    for (const after of task.after) {
+      const after_task = engine.tasks.find((task) => task.name === after);
+      if (after_task && !after_task.completed()) visit(after_task, depth + 1);
+    }
+  };
+  for (const task of engine.tasks) if (task_names.has(task.name)) visit(task, 0);
+}
@@ -0,0 +1,24 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { findImpacts } from "../src/check";
+import { CombatStrategy } from "../src/combat";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("findImpacts", () => {
+  beforeEach(resetState);
+
+  const nook = task({ name: "Crypt/Nook", combat: new CombatStrategy().killFree() });
+
+  it("names the tasks affected by a missing kind of resource", () => {
+    expect(findImpacts([nook])).toEqual(["No free kills: Crypt/Nook will cost extra turns"]);
+  });
+
+  it("ignores resources that are available", () => {
+    state.skills.add("Gingerbread Mob Hit");
+    expect(findImpacts([nook])).toEqual([]);
+  });
+
+  it("ignores completed tasks", () => {
+    expect(findImpacts([{ ...nook, completed: () => true }])).toEqual([]);
+  });
+});
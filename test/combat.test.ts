@@ -0,0 +1,33 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { cheapKillMacro, delevelMacro, spellKillMacro } from "../src/combat";
+import { resetState, state } from "./fakes/state";
+
+describe("default combat macros", () => {
+  beforeEach(resetState);
+
+  it("falls back to attacking without any kill spells", () => {
+    expect(spellKillMacro().toString()).toEqual("attack;repeat");
+  });
+
+  it("kills with the best known spell", () => {
+    state.skills.add("Saucestorm");
+    state.skills.add("Stream of Sauce");
+    expect(spellKillMacro().toString()).toEqual("skill Saucestorm;repeat");
+  });
+
+  it("kills with a cheap spell after running away", () => {
+    state.skills.add("Saucegeyser");
+    expect(cheapKillMacro().toString()).toEqual("attack;repeat");
+    state.skills.add("Saucestorm");
+    expect(spellKillMacro().toString()).toEqual("skill Saucegeyser;repeat");
+    expect(cheapKillMacro().toString()).toEqual("skill Saucestorm;repeat");
+  });
+
+  it("delevels with only the known skills", () => {
+    expect(delevelMacro().toString()).toEqual("");
+    state.skills.add("Micrometeorite");
+    expect(delevelMacro().toString()).toEqual(
+      "if hasskill Micrometeorite;skill Micrometeorite;endif"
+    );
+  });
+});
@@ -0,0 +1,152 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Location } from "kolmafia";
+import { Engine, matchTasks, resetAttempts, withDependencies } from "../src/engine";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("Engine.check_limits", () => {
+  beforeEach(resetState);
+
+  it("allows tasks that have not been attempted", () => {
+    const engine = new Engine([task({ limit: { tries: 1 } })]);
+    expect(() => engine.check_limits(engine.tasks[0])).not.toThrow();
+  });
+
+  it("throws once the number of tries is exhausted", () => {
+    const engine = new Engine([task({ limit: { tries: 2, message: "Try again." } })]);
+    engine.attempts["Test/Task"] = 1;
+    expect(() => engine.check_limits(engine.tasks[0])).not.toThrow();
+    engine.attempts["Test/Task"] = 2;
+    expect(() => engine.check_limits(engine.tasks[0])).toThrow(
+      "Task Test/Task did not complete within 2 attempts. Please check what went wrong. Try again."
+    );
+  });
+
+  it("mentions bad luck for soft limits", () => {
+    const engine = new Engine([task({ limit: { soft: 3 } })]);
+    engine.attempts["Test/Task"] = 3;
+    expect(() => engine.check_limits(engine.tasks[0])).toThrow(/you may just be unlucky/);
+  });
+
+  it("counts turns spent in the task location", () => {
+    const location = Location.get("The Spooky Forest");
+    const engine = new Engine([task({ do: location, limit: { turns: 5 } })]);
+    state.locationTurns.set("The Spooky Forest", 4);
+    expect(() => engine.check_limits(engine.tasks[0])).not.toThrow();
+    state.locationTurns.set("The Spooky Forest", 5);
+    expect(() => engine.check_limits(engine.tasks[0])).toThrow(/within 5 turns/);
+  });
+});
+
+describe("Engine.getNextTask", () => {
+  beforeEach(resetState);
+
+  it("skips tasks whose dependencies are incomplete", () => {
+    let done = false;
+    const engine = new Engine([
+      task({ name: "Test/Second", after: ["Test/First"], noadventures: true }),
+      task({ name: "Test/First", completed: () => done, noadventures: true }),
+    ]);
+    expect(engine.getNextTask()?.[0].name).toEqual("Test/First");
+    done = true;
+    expect(engine.getNextTask()?.[0].name).toEqual("Test/Second");
+  });
+
+  it("requires adventures for tasks that take turns", () => {
+    const engine = new Engine([task({})]);
+    expect(engine.getNextTask()).toBeUndefined();
+    state.adventures = 10;
+    expect(engine.getNextTask()?.[0].name).toEqual("Test/Task");
+  });
+
+  it("reports why tasks are blocked", () => {
+    let first_done = false;
+    let ready_calls = 0;
+    const ready = () => {
+      ready_calls++;
+      return false;
+    };
+    const engine = new Engine([
+      task({ name: "Test/Second", after: ["Test/First"], ready: ready }),
+      task({ name: "Test/First", completed: () => first_done }),
+    ]);
+    expect(engine.blockers(engine.tasks[0])).toEqual(["after Test/First", "out of adventures"]);
+    expect(engine.blockers(engine.tasks[0], true)).toEqual(["after Test/First"]);
+    expect(ready_calls).toEqual(0);
+    first_done = true;
+    expect(engine.blockers(engine.tasks[0])).toEqual(["not ready", "out of adventures"]);
+    state.adventures = 10;
+    expect(engine.blockers(engine.tasks[1])).toEqual(["completed"]);
+  });
+});
+
+describe("Engine preparation", () => {
+  beforeEach(resetState);
+
+  it("plans capped effects against the gear worn for the task", () => {
+    state.adventures = 10;
+    state.prices.set("magical mystery juice", 1000);
+    state.prices.set("Doc Galaktik's Invigorating Tonic", 90);
+    state.skills.add("Smooth Movements");
+    state.modifiers.set("Smooth Movements:Combat Rate", -5);
+    // The previous task left -combat gear on, which this task's outfit replaces
+    state.modifiers.set("Combat Rate", -25);
+    state.gear.set("Combat Rate", -10);
+    const engine = new Engine([task({ outfit: { modifier: "-combat" }, freeaction: true })]);
+    engine.execute(engine.tasks[0]);
+    const dressed = state.commands.findIndex((command) => command.startsWith("maximize"));
+    expect(dressed).not.toEqual(-1);
+    expect(state.commands.indexOf("ensure Smooth Movements")).toBeGreaterThan(dressed);
+  });
+});
+
+describe("Engine attempts", () => {
+  beforeEach(resetState);
+
+  it("persists attempts across engines", () => {
+    state.adventures = 10;
+    const engine = new Engine([task({ limit: { tries: 2 } })]);
+    engine.execute(engine.tasks[0]);
+    expect(new Engine([]).attempts).toEqual({ "Test/Task": 1 });
+
+    const restarted = new Engine([task({ limit: { tries: 2 } })]);
+    expect(() => restarted.execute(restarted.tasks[0])).toThrow(/within 2 attempts/);
+  });
+
+  it("resets attempts for a single task or all tasks", () => {
+    state.properties.set("_loop_casual_attempts", JSON.stringify({ "Test/A": 2, "Test/B": 1 }));
+    resetAttempts("Test/A");
+    expect(new Engine([]).attempts).toEqual({ "Test/B": 1 });
+    resetAttempts("all");
+    expect(new Engine([]).attempts).toEqual({});
+  });
+});
+
+describe("skipped tasks", () => {
+  beforeEach(resetState);
+
+  const tasks = () => [
+    task({ name: "Manor/Start", noadventures: true }),
+    task({ name: "Manor/Finish", after: ["Manor/Start"], noadventures: true }),
+    task({ name: "Tower/Finish", after: ["Manor/Finish"], noadventures: true }),
+  ];
+
+  it("matches task names and quest prefixes", () => {
+    expect(matchTasks(tasks(), "Manor/*, Tower/Finish")).toEqual(
+      new Set(["Manor/Start", "Manor/Finish", "Tower/Finish"])
+    );
+    expect(() => matchTasks(tasks(), "Manor/Middle")).toThrow("Unknown task Manor/Middle");
+  });
+
+  it("treats skipped tasks as completed for dependencies", () => {
+    const engine = new Engine(tasks(), matchTasks(tasks(), "Manor/*"));
+    expect(engine.available(engine.tasks[0])).toBe(false);
+    expect(engine.getNextTask()?.[0].name).toEqual("Tower/Finish");
+  });
+
+  it("keeps the dependencies of the only tasks to perform", () => {
+    const only = withDependencies(tasks(), matchTasks(tasks(), "Tower/Finish"));
+    expect(only).toEqual(new Set(["Tower/Finish", "Manor/Finish", "Manor/Start"]));
+    expect(withDependencies(tasks(), new Set(["Manor/Start"]))).toEqual(new Set(["Manor/Start"]));
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * An in-memory stand-in for the kolmafia runtime, mapped over "kolmafia" in
+ * jest.config.js. Functions that read game state are backed by ./state;
+ * functions that would contact the server only record a command.
+ */
+import { state } from "./state";
+
+/* eslint-disable @typescript-eslint/no-unused-vars */
+
+class MafiaObject {
+  readonly name: string;
+  constructor(name: string) {
+    this.name = name;
+  }
+
+  toString(): string {
+    return this.name;
+  }
+
+  static get<T extends MafiaObject>(this: new (name: string) => T, name: string): T {
+    return getObject(this, name);
+  }
+}
+
+const objects = new Map<unknown, Map<string, MafiaObject>>();
+function getObject<T extends MafiaObject>(type: new (name: string) => T, name: string): T {
+  let cache = objects.get(type);
+  if (cache === undefined) {
+    cache = new Map();
+    objects.set(type, cache);
+  }
+  const key = name.toLowerCase();
+  const existing = cache.get(key);
+  if (existing !== undefined) return existing as T;
+  const result = new type(name);
+  cache.set(key, result);
+  return result;
+}
+
+export class Item extends MafiaObject {
+  tradeable = true;
+  inebriety = 0;
+  get plural(): string {
+    return `${this.name}s`;
+  }
+}
+export class Location extends MafiaObject {
+  noncombatQueue = "";
+  combatPercent = 85;
+  get turnsSpent(): number {
+    return state.locationTurns.get(this.name) ?? 0;
+  }
+}
+export class Element extends MafiaObject {}
+export class Monster extends MafiaObject {
+  boss = false;
+  physicalResistance = 0;
+  elementalResistance = 0;
+  attackElement = Element.get("none");
+}
+export class Effect extends MafiaObject {
+  get default(): string {
+    return state.effectDefaults.get(this.name) ?? "";
+  }
+}
+export class Familiar extends MafiaObject {}
+export class Slot extends MafiaObject {}
+export class Stat extends MafiaObject {}
+export class Class extends MafiaObject {}
+export class Coinmaster extends MafiaObject {}
+export class Skill extends MafiaObject {
+  get class(): Class {
+    return Class.get(state.songs.has(this.name) ? "Accordion Thief" : "none");
+  }
+  get buff(): boolean {
+    return state.songs.has(this.name);
+  }
+}
+
+function record(command: string): boolean {
+  state.commands.push(command);
+  return true;
+}
+
+// Properties
+export function getProperty(name: string): string {
+  return state.properties.get(name) ?? "";
+}
+export function setProperty(name: string, value: string): void {
+  state.properties.set(name, value);
+}
+
+// Files
+export const fileToBuffer = (name: string): string => state.files.get(name) ?? "";
+export function bufferToFile(buffer: string, name: string): boolean {
+  state.files.set(name, buffer);
+  return true;
+}
+
+// Character state
+export const myLevel = (): number => state.level;
+export const myAdventures = (): number => state.adventures;
+export const myMeat = (): number => state.meat;
+export const myClosetMeat = (): number => state.closetMeat;
+export const myHp = (): number => state.hp;
+export const myMaxhp = (): number => state.maxhp;
+export const myMp = (): number => state.mp;
+export const myMaxmp = (): number => state.maxmp;
+export const myDaycount = (): number => state.daycount;
+export const myTurncount = (): number => state.turnsPlayed;
+export const turnsPlayed = (): number => state.turnsPlayed;
+export const totalTurnsPlayed = (): number => state.turnsPlayed;
+export const myPrimestat = (): Stat => Stat.get(state.primestat);
+export const myClass = (): Class => Class.get(state.class);
+export const myBasestat = (stat: Stat): number => state.level * 10;
+export const myBuffedstat = (stat: Stat): number => state.level * 10;
+export const myFullness = (): number => 0;
+export const myInebriety = (): number => 0;
+export const mySpleenUse = (): number => 0;
+export const myFury = (): number => 0;
+export const myHash = (): string => "";
+export function myEffects(): { [name: string]: number } {
+  const result: { [name: string]: number } = {};
+  state.effects.forEach((turns, name) => (result[name] = turns));
+  return result;
+}
+export const haveEffect = (effect: Effect): number => state.effects.get(effect.name) ?? 0;
+export const gametimeToInt = (): number => 0;
+export const initiativeModifier = (): number => 0;
+export const monsterLevelAdjustment = (): number => 0;
+export const weightAdjustment = (): number => 0;
+export const totalFreeRests = (): number => state.freeRests;
+export const todayToString = (): string => state.today;
+export const getWorkshed = (): Item => Item.get("none");
+export const reverseNumberology = (): { [result: number]: number } => ({});
+
+// Items and equipment
+export const itemAmount = (item: Item): number => state.items.get(item.name) ?? 0;
+export const availableAmount = (item: Item): number => itemAmount(item) + equippedAmount(item);
+export function equippedAmount(item: Item): number {
+  return Array.from(state.equipped.values()).filter((name) => name === item.name).length;
+}
+export const equippedItem = (slot: Slot): Item => Item.get(state.equipped.get(slot.name) ?? "none");
+export const toSlot = (item: Item): Slot => Slot.get(state.slots.get(item.name) ?? "none");
+export const weaponHands = (item: Item): number => state.hands.get(item.name) ?? 1;
+export const weaponType = (item: Item): Stat => Stat.get("Muscle");
+export const itemType = (item: Item): string => "";
+export const mallPrice = (item: Item): number => state.prices.get(item.name) ?? 0;
+export const retrievePrice = (item: Item, qty = 1): number => mallPrice(item) * qty;
+export const familiarWeight = (familiar: Familiar): number => 0;
+export const familiarEquippedEquipment = (familiar: Familiar): Item => Item.get("none");
+export const monsterDefense = (monster: Monster): number => 0;
+export const monsterAttack = (monster: Monster): number => 0;
+export const monsterHp = (monster: Monster): number => 0;
+export const getPower = (item: Item): number => 0;
+export function numericModifier(arg: string | MafiaObject, modifier?: string): number {
+  const key = modifier === undefined ? `${arg}` : `${arg}:${modifier}`;
+  return state.modifiers.get(key) ?? 0;
+}
+export const elementalResistance = (element: Element): number => 0;
+export const toInt = (value: unknown): number => Number(value);
+export const toItem = (name: string): Item => Item.get(name || "none");
+export const toSkill = (effect: Effect): Skill => Skill.get(effect.name);
+export const toUrl = (location: Location): string => `adventure.php?snarfblat=${location}`;
+export const floor = Math.floor;
+export const turnsPerCast = (skill: Skill): number => 10;
+export const mpCost = (skill: Skill): number => 50;
+export const containsText = (source: string, search: string): boolean => source.includes(search);
+
+export function equip(slot: Slot, item: Item): boolean {
+  state.equipped.set(slot.name, item.name);
+  return record(`equip ${slot} ${item}`);
+}
+export function useFamiliar(familiar: Familiar): boolean {
+  state.familiar = familiar.name;
+  return record(`familiar ${familiar}`);
+}
+export const bjornifyFamiliar = (familiar: Familiar): boolean => record(`bjornify ${familiar}`);
+
+// Server interaction
+export const print = (message: string, color?: string): void => undefined;
+export const printHtml = (message: string): void => undefined;
+export const cliExecute = (command: string): boolean => record(command);
+export const visitUrl = (url: string): string => {
+  record(`visit ${url}`);
+  return "";
+};
+export function adv1(location: Location, turns: number, filter: string): boolean {
+  state.locationTurns.set(location.name, location.turnsSpent + 1);
+  state.turnsPlayed++;
+  state.adventures--;
+  return record(`adv1 ${location}`);
+}
+export const runCombat = (): string => "";
+export const currentRound = (): number => state.round;
+export const handlingChoice = (): boolean => state.choice;
+export const runChoice = (choice: number, extra?: string): string => "";
+export const inMultiFight = (): boolean => false;
+export const choiceFollowsFight = (): boolean => false;
+export const setAutoAttack = (id: number): void => undefined;
+export const takeCloset = (amount: number): boolean => record(`take closet ${amount}`);
+export const restoreHp = (amount: number): boolean => record(`restore hp ${amount}`);
+export const restoreMp = (amount: number): boolean => record(`restore mp ${amount}`);
+export const useSkill = (skill: Skill, times?: number): boolean => record(`cast ${skill}`);
+export const use = (item: Item | number, times?: number | Item): boolean => record(`use ${item}`);
+export const eat = (qty: number, item: Item): boolean => record(`eat ${item}`);
+export const drink = (qty: number, item: Item): boolean => record(`drink ${item}`);
+export const overdrink = (qty: number, item: Item): boolean => record(`overdrink ${item}`);
+export const chew = (qty: number, item: Item): boolean => record(`chew ${item}`);
+export const create = (qty: number, item: Item): boolean => record(`create ${item}`);
+// Purchases always succeed at mall price, if the price is below the cap and there is enough meat
+function gain(item: Item, qty: number, price?: number): number {
+  const cost = mallPrice(item) * qty;
+  if ((price !== undefined && mallPrice(item) > price) || cost > state.meat) return 0;
+  state.meat -= cost;
+  state.items.set(item.name, itemAmount(item) + qty);
+  return qty;
+}
+export function buy(item: Item, qty: number, price?: number): number {
+  record(`buy ${qty} ${item}`);
+  return gain(item, qty, price);
+}
+export function retrieveItem(item: Item, qty = 1): boolean {
+  record(`acquire ${qty} ${item}`);
+  gain(item, Math.max(0, qty - itemAmount(item)));
+  return itemAmount(item) >= qty;
+}
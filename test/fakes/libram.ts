@@ -0,0 +1,279 @@
+/**
+ * An in-memory stand-in for the parts of libram used by the script, mapped
+ * over "libram" in jest.config.js. Built on top of the fake kolmafia module.
+ */
+import {
+  Class,
+  Coinmaster,
+  Effect,
+  Element,
+  equippedAmount,
+  Familiar,
+  getProperty,
+  Item,
+  itemAmount,
+  Location,
+  Monster,
+  setProperty,
+  Skill,
+  Slot,
+  Stat,
+} from "./kolmafia";
+import { state } from "./state";
+
+/* eslint-disable @typescript-eslint/no-unused-vars, @typescript-eslint/no-explicit-any */
+
+function templateNames(strings: TemplateStringsArray): string[] {
+  const raw = strings.raw.join("").trim();
+  if (raw === "") return [];
+  return raw.split(/(?<!\\),/).map((name) => name.replace(/\\,/g, ",").trim());
+}
+
+function single<T>(type: { get(name: string): T }) {
+  return (strings: TemplateStringsArray): T => type.get(templateNames(strings).join(","));
+}
+function plural<T>(type: { get(name: string): T }) {
+  return (strings: TemplateStringsArray): T[] =>
+    templateNames(strings).map((name) => type.get(name));
+}
+
+export const $item = single(Item);
+export const $items = plural(Item);
+export const $location = single(Location);
+export const $monster = single(Monster);
+export const $monsters = plural(Monster);
+export const $effect = single(Effect);
+export const $element = single(Element);
+export const $effects = plural(Effect);
+export const $familiar = single(Familiar);
+export const $familiars = plural(Familiar);
+export const $skill = single(Skill);
+export const $skills = plural(Skill);
+export const $slot = single(Slot);
+export const $slots = plural(Slot);
+export const $stat = single(Stat);
+export const $class = single(Class);
+export const $coinmaster = single(Coinmaster);
+
+// Properties
+function parse(value: string): unknown {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value !== "" && !isNaN(Number(value))) return Number(value);
+  return value;
+}
+
+export function get(name: string, fallback?: unknown): any {
+  const value = getProperty(name);
+  if (fallback === undefined) return parse(value);
+  if (value === "") return fallback;
+  if (typeof fallback === "number") return Number(value);
+  if (typeof fallback === "boolean") return value === "true";
+  return value;
+}
+
+export function set(name: string, value: unknown): void {
+  setProperty(name, `${value}`);
+}
+
+export class PropertiesManager {
+  private previous = new Map<string, string>();
+
+  set(properties: { [name: string]: unknown }): void {
+    for (const name in properties) {
+      if (!this.previous.has(name)) this.previous.set(name, getProperty(name));
+      set(name, properties[name]);
+    }
+  }
+
+  setChoices(choices: { [choice: number]: number }): void {
+    const properties: { [name: string]: number } = {};
+    for (const choice in choices) properties[`choiceAdventure${choice}`] = choices[choice];
+    this.set(properties);
+  }
+
+  resetAll(): void {
+    this.previous.forEach((value, name) => setProperty(name, value));
+    this.previous.clear();
+  }
+}
+
+// Character state
+export function have(thing: Item | Skill | Familiar | Effect, quantity = 1): boolean {
+  if (thing instanceof Item) return itemAmount(thing) + equippedAmount(thing) >= quantity;
+  if (thing instanceof Skill) return state.skills.has(thing.name);
+  if (thing instanceof Familiar) return state.familiars.has(thing.name);
+  return (state.effects.get(thing.name) ?? 0) >= quantity;
+}
+
+export function ensureEffect(effect: Effect, turns = 1): void {
+  if ((state.effects.get(effect.name) ?? 0) >= turns) return;
+  state.effects.set(effect.name, turns);
+  state.commands.push(`ensure ${effect}`);
+}
+
+export function uneffect(effect: Effect): boolean {
+  state.effects.delete(effect.name);
+  state.commands.push(`uneffect ${effect}`);
+  return true;
+}
+
+export const getBanishedMonsters = (): Map<Item | Skill, Monster> => new Map();
+export const getKramcoWandererChance = (): number => 0;
+export const getModifier = (name: string, subject?: unknown): number => 0;
+export const getSaleValue = (item: Item): number => 0;
+export const getAverageAdventures = (item: Item): number => 0;
+
+export function sum<T>(values: T[], property: (value: T) => number): number {
+  return values.reduce((total, value) => total + property(value), 0);
+}
+export function sumNumbers(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+// Combat macros
+type Step = string | Macro;
+
+export class Macro {
+  components: string[] = [];
+
+  static load(): Macro {
+    const result = new Macro();
+    const saved = getProperty("libram_savedMacro");
+    if (saved !== "") result.components = saved.split(";");
+    return result;
+  }
+
+  toString(): string {
+    return this.components.join(";");
+  }
+
+  save(): void {
+    setProperty("libram_savedMacro", this.toString());
+  }
+
+  submit(): string {
+    state.commands.push(`macro ${this}`);
+    return "";
+  }
+
+  step(...nextSteps: Step[]): Macro {
+    for (const next of nextSteps) {
+      if (next instanceof Macro) this.components.push(...next.components);
+      else if (next !== "") this.components.push(next);
+    }
+    return this;
+  }
+
+  skill(skill: Skill): Macro {
+    return this.step(`skill ${skill}`);
+  }
+  trySkill(skill: Skill): Macro {
+    return this.step(`if hasskill ${skill}`, `skill ${skill}`, "endif");
+  }
+  item(item: Item): Macro {
+    return this.step(`use ${item}`);
+  }
+  tryItem(item: Item): Macro {
+    return this.step(`if hascombatitem ${item}`, `use ${item}`, "endif");
+  }
+  attack(): Macro {
+    return this.step("attack");
+  }
+  runaway(): Macro {
+    return this.step("runaway");
+  }
+  abort(): Macro {
+    return this.step("abort");
+  }
+  repeat(): Macro {
+    return this.step("repeat");
+  }
+  if_(condition: Monster | string, then: Step): Macro {
+    return this.step(`if ${condition}`, then, "endif");
+  }
+  while_(condition: string, then: Step): Macro {
+    return this.step(`while ${condition}`, then, "endwhile");
+  }
+  externalIf(condition: boolean, then: Step): Macro {
+    return condition ? this.step(then) : this;
+  }
+}
+
+// Maximizer
+export class Requirement {
+  maximizeParameters: string[];
+  maximizeOptions: { [option: string]: unknown };
+
+  constructor(maximizeParameters: string[], maximizeOptions: { [option: string]: unknown }) {
+    this.maximizeParameters = maximizeParameters;
+    this.maximizeOptions = maximizeOptions;
+  }
+
+  static merge(requirements: Requirement[]): Requirement {
+    return new Requirement(
+      ([] as string[]).concat(...requirements.map((requirement) => requirement.maximizeParameters)),
+      Object.assign({}, ...requirements.map((requirement) => requirement.maximizeOptions))
+    );
+  }
+
+  maximize(): boolean {
+    const options = this.maximizeOptions;
+    const items = (option: unknown) => (option as Item[] | undefined) ?? [];
+    const bonuses = (options.bonusEquip as Map<Item, number> | undefined) ?? new Map();
+    const clauses = [
+      ...this.maximizeParameters,
+      ...items(options.forceEquip).map((item) => `equip ${item}`),
+      ...items(options.preventEquip).map((item) => `-equip ${item}`),
+      ...Array.from(bonuses).map(([item, bonus]) => `${bonus} bonus ${item}`),
+    ];
+    state.commands.push(`maximize ${clauses.join(", ")}`);
+    state.gear.forEach((value, modifier) => state.modifiers.set(modifier, value));
+    return true;
+  }
+}
+
+// Diet
+export class MenuItem<T> {
+  item: Item;
+  options: { [option: string]: unknown };
+  constructor(item: Item, options: { [option: string]: unknown } = {}) {
+    this.item = item;
+    this.options = options;
+  }
+}
+export class Diet<T> {
+  entries: unknown[] = [];
+  static plan<T>(mpa: number, menu: MenuItem<T>[], organCapacity?: unknown): Diet<T> {
+    return new Diet<T>();
+  }
+}
+
+// Resources
+export const AsdonMartin = {
+  installed: (): boolean => false,
+  drive: (style: Effect, turns?: number): boolean => false,
+  fillTo: (turns: number): boolean => false,
+  Driving: {
+    Obnoxiously: Effect.get("Driving Obnoxiously"),
+    Stealthily: Effect.get("Driving Stealthily"),
+    Quickly: Effect.get("Driving Quickly"),
+    Observantly: Effect.get("Driving Observantly"),
+  },
+};
+export const ChateauMantegna = {
+  have: (): boolean => state.chateau,
+  changeNightstand: (item: string): boolean => false,
+};
+export const Witchess = {
+  have: (): boolean => false,
+  fightsDone: (): number => 0,
+  fightPiece: (piece: Monster): string => "",
+};
+export const SourceTerminal = {
+  educate: (skills: Skill | Skill[]): boolean => false,
+  isCurrentSkill: (skills: Skill | Skill[]): boolean => false,
+};
+export const Clan = {
+  get: (): { name: string } => ({ name: "" }),
+};
@@ -0,0 +1,87 @@
+/**
+ * In-memory game state backing the fake kolmafia and libram modules.
+ *
+ * Tests adjust this state directly (e.g. state.level = 5) and reset it
+ * between cases with resetState().
+ */
+export type FakeState = {
+  properties: Map<string, string>;
+  items: Map<string, number>;
+  equipped: Map<string, string>; // slot name -> item name
+  skills: Set<string>;
+  songs: Set<string>; // Accordion Thief songs, by skill name
+  familiars: Set<string>;
+  effects: Map<string, number>; // effect name -> turns remaining
+  effectDefaults: Map<string, string>; // effect name -> default command to get it
+  modifiers: Map<string, number>; // modifier, or "<source>:<modifier>" -> value
+  gear: Map<string, number>; // modifier -> value, set once the maximizer has dressed
+  slots: Map<string, string>; // item name -> slot name
+  hands: Map<string, number>; // weapon name -> hands, if not one-handed
+  locationTurns: Map<string, number>;
+  prices: Map<string, number>; // item name -> mall price
+  files: Map<string, string>;
+  today: string;
+  level: number;
+  adventures: number;
+  meat: number;
+  closetMeat: number;
+  hp: number;
+  maxhp: number;
+  mp: number;
+  maxmp: number;
+  daycount: number;
+  freeRests: number;
+  chateau: boolean; // Whether the Chateau Mantegna is available
+  turnsPlayed: number;
+  primestat: string;
+  class: string;
+  familiar: string;
+  round: number; // Current combat round, or 0 if not in a fight
+  choice: boolean; // Whether a choice adventure is in progress
+  commands: string[]; // Every command sent to the "server", in order
+};
+
+function freshState(): FakeState {
+  return {
+    properties: new Map(),
+    items: new Map(),
+    equipped: new Map(),
+    skills: new Set(),
+    songs: new Set(),
+    familiars: new Set(),
+    effects: new Map(),
+    effectDefaults: new Map(),
+    modifiers: new Map(),
+    gear: new Map(),
+    slots: new Map(),
+    hands: new Map(),
+    locationTurns: new Map(),
+    prices: new Map(),
+    files: new Map(),
+    today: "20220629",
+    level: 1,
+    adventures: 0,
+    meat: 0,
+    closetMeat: 0,
+    hp: 100,
+    maxhp: 100,
+    mp: 100,
+    maxmp: 100,
+    daycount: 1,
+    freeRests: 0,
+    chateau: false,
+    turnsPlayed: 0,
+    primestat: "Muscle",
+    class: "Seal Clubber",
+    familiar: "none",
+    round: 0,
+    choice: false,
+    commands: [],
+  };
+}
+
+export const state: FakeState = freshState();
+
+export function resetState(): void {
+  Object.assign(state, freshState());
+}
@@ -0,0 +1,33 @@
+import { Quest, Task } from "../../src/tasks/structure";
+
+/**
+ * Build a task for tests, which by default is never completed and does nothing.
+ * @param extra Fields of the task to override, e.g. its name or dependencies.
+ */
+export function task(extra: Partial<Task> = {}): Task {
+  return {
+    name: "Test/Task",
+    after: [],
+    completed: () => false,
+    do: () => undefined,
+    limit: {},
+    ...extra,
+  };
+}
+
+/**
+ * Build a quest for tests, whose tasks are never completed and do nothing.
+ * @param tasks The name and dependencies of each task.
+ */
+export function quest(name: string, tasks: [string, string[]][]): Quest {
+  return {
+    name: name,
+    tasks: tasks.map(([task, after]) => ({
+      name: task,
+      after: after,
+      completed: () => false,
+      do: () => undefined,
+      limit: { tries: 1 },
+    })),
+  };
+}
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Location } from "kolmafia";
+import { estimateTurns } from "../src/forecast";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("estimateTurns", () => {
+  beforeEach(resetState);
+
+  const forest = Location.get("The Spooky Forest");
+
+  it("expects no turns for completed or free tasks", () => {
+    expect(estimateTurns(task({ completed: () => true }))).toEqual(0);
+    expect(estimateTurns(task({ freeaction: true }))).toEqual(0);
+  });
+
+  it("uses the remaining tries and half of any soft limit", () => {
+    expect(estimateTurns(task({ limit: { tries: 3 } }), 1)).toEqual(2);
+    expect(estimateTurns(task({ limit: { soft: 10 } }))).toEqual(5);
+  });
+
+  it("adds the remaining delay", () => {
+    state.locationTurns.set("The Spooky Forest", 2);
+    expect(estimateTurns(task({ do: forest, delay: 5, limit: { tries: 1 } }))).toEqual(4);
+  });
+
+  it("waits for a noncombat in -combat tasks", () => {
+    expect(
+      estimateTurns(task({ do: forest, outfit: { modifier: "-combat" }, limit: { soft: 20 } }))
+    ).toEqual(7);
+  });
+});
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { appendJournal, JournalEntry, readJournal, summarizeJournal } from "../src/journal";
+import { resetState, state } from "./fakes/state";
+
+function entry(task: string, turns: [number, number]): JournalEntry {
+  return {
+    task: task,
+    attempt: 1,
+    turns: turns,
+    meat: [0, 0],
+    wanderers: [],
+    resources: {},
+    outcome: "completed",
+  };
+}
+
+describe("journal", () => {
+  beforeEach(resetState);
+
+  it("appends entries to a file for the current day", () => {
+    appendJournal(entry("Mosquito/Start", [0, 0]));
+    appendJournal(entry("Mosquito/Mosquito", [0, 3]));
+    expect(readJournal().map((e) => e.task)).toEqual(["Mosquito/Start", "Mosquito/Mosquito"]);
+    expect(state.files.has("loopcasual_journal_20220629.json")).toBe(true);
+
+    state.today = "20220630";
+    expect(readJournal()).toEqual([]);
+  });
+
+  it("totals turns per quest", () => {
+    const entries = [
+      entry("Mosquito/Burn Delay", [0, 5]),
+      entry("Tavern/Start", [5, 5]),
+      entry("Mosquito/Mosquito", [5, 8]),
+    ];
+    expect(summarizeJournal(entries)).toEqual([
+      ["Mosquito", 8, 2],
+      ["Tavern", 0, 1],
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Effect } from "kolmafia";
+import { applyEffects, capReached, moodKeywords, planMood, planSongs } from "../src/moods";
+import { purchases, setMeatBudget } from "../src/spending";
+import { resetState, state } from "./fakes/state";
+
+describe("moodKeywords", () => {
+  beforeEach(resetState);
+
+  it("matches whole terms, ignoring weights and caps", () => {
+    const keywords = moodKeywords("item 500max, 4exp, ML");
+    expect(keywords).toEqual(new Set(["always", "item", "exp", "ml"]));
+    expect(moodKeywords("monster level percent")).not.toContain("ml");
+  });
+
+  it("includes the class mainstat", () => {
+    expect(moodKeywords("mainstat")).toContain("muscle");
+  });
+});
+
+describe("planMood", () => {
+  beforeEach(() => {
+    resetState();
+    setMeatBudget(undefined);
+    // Value MP at 10 meat, so that each skill costs 500 meat
+    state.prices.set("magical mystery juice", 1000);
+    state.prices.set("Doc Galaktik's Invigorating Tonic", 90);
+    state.modifiers.set("Smooth Movements:Combat Rate", -5);
+    state.modifiers.set("The Sonata of Sneakiness:Combat Rate", -5);
+    state.modifiers.set("Feeling Lonely:Combat Rate", -5);
+    state.skills.add("Smooth Movements");
+    state.skills.add("The Sonata of Sneakiness");
+    state.skills.add("Emotionally Chipped");
+    state.properties.set("_olympicSwimmingPool", "true");
+  });
+
+  const names = (modifier: string) => planMood(modifier).map((source) => source.name);
+
+  it("chooses the cheapest effects that reach the -combat cap", () => {
+    state.modifiers.set("Combat Rate", -15);
+    expect(names("-combat")).toEqual(["Smooth Movements", "The Sonata of Sneakiness"]);
+  });
+
+  it("saves limited daily uses until they are needed", () => {
+    state.modifiers.set("Combat Rate", -10);
+    expect(names("-combat")).toEqual([
+      "Smooth Movements",
+      "The Sonata of Sneakiness",
+      "Feeling Lonely",
+    ]);
+  });
+
+  it("counts the chosen effects towards the cap", () => {
+    state.modifiers.set("Combat Rate", -15);
+    expect(capReached("-combat", [])).toBe(false);
+    expect(capReached("-combat", planMood("-combat"))).toBe(true);
+  });
+
+  it("chooses nothing once the cap is reached", () => {
+    state.modifiers.set("Combat Rate", -25);
+    expect(names("-combat")).toEqual([]);
+  });
+
+  it("skips effects that are already active", () => {
+    state.effects.set("Feeling Lonely", 5);
+    state.modifiers.set("Combat Rate", -20);
+    expect(names("-combat")).toEqual(["Smooth Movements"]);
+  });
+
+  it("chooses uncapped effects only below a fifth of the value of an adventure", () => {
+    state.skills.add("Fat Leon's Phat Loot Lyric");
+    state.effectDefaults.set("Phorcefullness", "use 1 philter of phorce");
+    state.prices.set("philter of phorce", 5000);
+    expect(names("item")).toEqual(["Fat Leon's Phat Loot Lyric"]);
+    expect(names("muscle")).toEqual([]);
+    state.prices.set("philter of phorce", 1000);
+    expect(names("muscle")).toEqual(["Phorcefullness"]);
+    setMeatBudget(500);
+    expect(names("muscle")).toEqual([]);
+  });
+});
+
+describe("applyEffects", () => {
+  beforeEach(resetState);
+
+  it("buys required potions with tracked spending, not mall auto-buy", () => {
+    state.meat = 1000;
+    state.prices.set("hair spray", 100);
+    state.effectDefaults.set("Butt-Rock Hair", "use 1 hair spray");
+    state.properties.set("autoSatisfyWithMall", "true");
+    applyEffects("", [Effect.get("Butt-Rock Hair")]);
+    expect(state.commands).toEqual(["acquire 1 hair spray", "ensure Butt-Rock Hair"]);
+    expect(purchases().map((purchase) => purchase.item)).toEqual(["hair spray"]);
+    expect(state.properties.get("autoSatisfyWithMall")).toEqual("true");
+  });
+});
+
+describe("planSongs", () => {
+  const songs = [
+    "Fat Leon's Phat Loot Lyric",
+    "Polka of Plenty",
+    "Ur-Kel's Aria of Annoyance",
+    "The Sonata of Sneakiness",
+    "Carlweather's Cantata of Confrontation",
+    "Aloysius' Antiphon of Aptitude",
+  ];
+  beforeEach(() => {
+    resetState();
+    for (const song of songs) state.songs.add(song);
+  });
+
+  const names = (effects: Effect[]) => effects.map((effect) => effect.name);
+
+  it("drops the least valuable active songs to make room", () => {
+    state.effects.set("Fat Leon's Phat Loot Lyric", 10);
+    state.effects.set("Polka of Plenty", 10);
+    state.effects.set("Aloysius' Antiphon of Aptitude", 10);
+    const [keep, remove] = planSongs([Effect.get("The Sonata of Sneakiness")]);
+    expect(names(keep)).toEqual([
+      "The Sonata of Sneakiness",
+      "Fat Leon's Phat Loot Lyric",
+      "Polka of Plenty",
+    ]);
+    expect(names(remove)).toEqual(["Aloysius' Antiphon of Aptitude"]);
+  });
+
+  it("skips wanted songs that do not fit instead of failing", () => {
+    const wanted = songs.slice(0, 4).map((song) => Effect.get(song));
+    expect(names(planSongs(wanted)[0])).toEqual(songs.slice(0, 3));
+  });
+
+  it("never keeps both the Sonata and the Cantata", () => {
+    state.effects.set("Carlweather's Cantata of Confrontation", 10);
+    const [keep, remove] = planSongs([Effect.get("The Sonata of Sneakiness")]);
+    expect(names(keep)).toEqual(["The Sonata of Sneakiness"]);
+    expect(names(remove)).toEqual(["Carlweather's Cantata of Confrontation"]);
+  });
+});
@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Familiar, Item, Slot } from "kolmafia";
+import { Outfit } from "../src/outfit";
+import { resetState, state } from "./fakes/state";
+
+function item(name: string, slot: string, hands?: number): Item {
+  state.items.set(name, 1);
+  state.slots.set(name, slot);
+  if (hands !== undefined) state.hands.set(name, hands);
+  return Item.get(name);
+}
+
+describe("Outfit.canEquip", () => {
+  beforeEach(resetState);
+
+  it("counts the accessory slots across a set of items", () => {
+    const outfit = new Outfit();
+    outfit.equip(item("ring", "acc1"));
+    const pair = [item("amulet", "acc1"), item("bracelet", "acc1")];
+    expect(outfit.canEquip(pair)).toBe(true);
+    outfit.equip(item("anklet", "acc1"));
+    expect(outfit.canEquip(pair)).toBe(false);
+    expect(outfit.canEquip(pair[0])).toBe(true);
+  });
+
+  it("fits only one extra off-hand item on Left-Hand Man", () => {
+    state.familiars.add("Left-Hand Man");
+    const outfit = new Outfit();
+    outfit.equip(item("shield", "off-hand"));
+    const pair = [item("torch", "off-hand"), item("lantern", "off-hand")];
+    expect(outfit.canEquip(pair[0])).toBe(true);
+    expect(outfit.canEquip(pair[1])).toBe(true);
+    expect(outfit.canEquip(pair)).toBe(false);
+  });
+
+  it("keeps the off-hand free for two-handed weapons", () => {
+    state.familiars.add("Left-Hand Man");
+    const outfit = new Outfit();
+    expect(outfit.equip(item("greatsword", "weapon", 2))).toBe(true);
+    const shield = item("shield", "off-hand");
+    expect(outfit.canEquip(shield)).toBe(true); // On Left-Hand Man
+    expect(outfit.canEquip([shield, Familiar.get("Left-Hand Man")])).toBe(false);
+    expect(outfit.canEquip([shield, item("torch", "off-hand")])).toBe(false);
+  });
+
+  it("holds a second one-handed weapon with Double-Fisted Skull Smashing", () => {
+    const outfit = new Outfit();
+    outfit.equip(item("sword", "weapon"));
+    const dagger = item("dagger", "weapon");
+    expect(outfit.canEquip(dagger)).toBe(false);
+    state.skills.add("Double-Fisted Skull Smashing");
+    expect(outfit.canEquip(dagger)).toBe(true);
+    expect(outfit.canEquip(item("greatsword", "weapon", 2))).toBe(false);
+    expect(outfit.canEquip([dagger, item("shield", "off-hand")])).toBe(false);
+  });
+
+  it("finds an order that fits the whole set", () => {
+    state.familiars.add("Left-Hand Man");
+    state.skills.add("Double-Fisted Skull Smashing");
+    const outfit = new Outfit();
+    outfit.equip(item("sword", "weapon"));
+    // The shield must go on Left-Hand Man, leaving the off-hand for the dagger
+    const set = [item("shield", "off-hand"), item("dagger", "weapon")];
+    expect(outfit.canEquip(set)).toBe(true);
+    expect(outfit.equip(set)).toBe(true);
+    expect(outfit.equips.get(Slot.get("off-hand"))).toBe(Item.get("dagger"));
+    expect(outfit.equips.get(Slot.get("familiar"))).toBe(Item.get("shield"));
+  });
+});
+
+describe("Outfit.dress", () => {
+  beforeEach(resetState);
+
+  it("dresses in a single maximizer call", () => {
+    const outfit = new Outfit();
+    outfit.equip(item("sword", "weapon"));
+    outfit.equip(item("ring", "acc1"));
+    outfit.avoid = [item("cursed hat", "hat")];
+    outfit.bonus(item("lucky gold ring", "acc1"), 3);
+    outfit.modifier = "-combat";
+    outfit.dress();
+    expect(state.commands).toEqual([
+      "maximize -combat, equip sword, equip ring, -equip cursed hat, 3 bonus lucky gold ring",
+    ]);
+  });
+
+  it("dresses the same way without a modifier", () => {
+    const outfit = new Outfit();
+    outfit.equip(item("sword", "weapon"));
+    outfit.dress();
+    expect(state.commands).toEqual(["maximize equip sword"]);
+  });
+
+  it("equips Left-Hand Man before maximizing", () => {
+    state.familiars.add("Left-Hand Man");
+    const outfit = new Outfit();
+    outfit.equip(item("shield", "off-hand"));
+    outfit.equip(item("torch", "off-hand"));
+    outfit.dress();
+    expect(state.commands).toEqual([
+      "familiar Left-Hand Man",
+      "equip familiar torch",
+      "maximize equip shield",
+    ]);
+  });
+
+  it("skips bonuses for items that are not available", () => {
+    const outfit = new Outfit();
+    outfit.bonus(Item.get("lucky gold ring"), 3);
+    outfit.dress();
+    expect(state.commands).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Monster } from "kolmafia";
+import { CombatStrategy, MonsterStrategy } from "../src/combat";
+import { Engine } from "../src/engine";
+import { classifyFailure, hardened } from "../src/recovery";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("classifyFailure", () => {
+  beforeEach(resetState);
+
+  it("finds nothing wrong after a normal action", () => {
+    expect(classifyFailure()).toBeUndefined();
+  });
+
+  it("distinguishes lost fights from running out of MP", () => {
+    state.effects.set("Beaten Up", 3);
+    expect(classifyFailure()).toEqual("lost fight");
+    state.skills.add("Saucegeyser");
+    state.mp = 10;
+    expect(classifyFailure()).toEqual("out of MP");
+  });
+
+  it("detects fights and choices left in progress", () => {
+    state.choice = true;
+    expect(classifyFailure()).toEqual("unexpected choice");
+    state.round = 3;
+    expect(classifyFailure()).toEqual("macro aborted");
+  });
+});
+
+describe("hardened", () => {
+  it("kills hard in a defensive outfit", () => {
+    const monster = Monster.get("spooky vampire");
+    const result = hardened(
+      task({
+        combat: new CombatStrategy().kill().banish(monster),
+        outfit: { modifier: "item" },
+      })
+    );
+    expect(result.combat?.default_strategy).toEqual(MonsterStrategy.KillHard);
+    expect(result.combat?.strategy.get(monster)).toEqual(MonsterStrategy.Banish);
+    expect(typeof result.outfit === "function" && result.outfit().modifier).toEqual(
+      "item, 0.5 HP, 0.2 DA, 0.2 DR"
+    );
+  });
+});
+
+describe("Engine.recover", () => {
+  beforeEach(resetState);
+
+  it("stops after the maximum number of recoveries", () => {
+    const engine = new Engine([task({})], undefined, 1);
+    state.effects.set("Beaten Up", 3);
+    state.hp = 10;
+    engine.recover(engine.tasks[0], "lost fight");
+    expect(state.commands).toContain("uneffect Beaten Up");
+    // Restored with the cost-based chooser, not by mafia
+    expect(state.commands.filter((command) => command.startsWith("restore"))).toEqual([]);
+    expect(engine.hardened.has("Test/Task")).toBe(true);
+    expect(() => engine.recover(engine.tasks[0], "lost fight")).toThrow(
+      "Task Test/Task failed (lost fight) after 1 recoveries; stop."
+    );
+  });
+});
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Engine } from "../src/engine";
+import { renderDashboard, taskStatuses } from "../src/relay";
+import { resetState } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("taskStatuses", () => {
+  beforeEach(resetState);
+
+  const engine = () => {
+    const result = new Engine([
+      task({ name: "Test/Done", noadventures: true, completed: () => true }),
+      task({ name: "Test/Blocked", noadventures: true, after: ["Test/Next"] }),
+      task({ name: "Test/Next", noadventures: true, limit: { tries: 3 } }),
+    ]);
+    result.attempts["Test/Next"] = 1;
+    return result;
+  };
+
+  it("reports the status of each task", () => {
+    expect(taskStatuses(engine())).toEqual([
+      { name: "Test/Done", status: "completed", blockers: [], usage: "0", next: false },
+      {
+        name: "Test/Blocked",
+        status: "blocked",
+        blockers: ["after Test/Next"],
+        usage: "0",
+        next: false,
+      },
+      { name: "Test/Next", status: "available", blockers: [], usage: "1/3 tries", next: true },
+    ]);
+  });
+
+  it("renders the next task", () => {
+    expect(renderDashboard(engine())).toContain("<h2>Next task: Test/Next</h2>");
+  });
+});
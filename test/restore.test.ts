@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { CombatStrategy } from "../src/combat";
+import { chooseRestore, restoreTargets } from "../src/restore";
+import { setMeatBudget } from "../src/spending";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("chooseRestore", () => {
+  beforeEach(() => {
+    resetState();
+    setMeatBudget(undefined);
+    state.prices.set("scroll of drastic healing", 500);
+    state.prices.set("Doc Galaktik's Homeopathic Elixir", 60);
+    state.prices.set("magical mystery juice", 100);
+    state.prices.set("Doc Galaktik's Invigorating Tonic", 90);
+  });
+
+  it("chooses the lowest cost per HP needed", () => {
+    expect(chooseRestore(50, 0)?.name).toEqual("Doc Galaktik's Homeopathic Elixir");
+    expect(chooseRestore(100, 0)?.name).toEqual("Doc Galaktik's Homeopathic Elixir");
+    state.prices.set("Doc Galaktik's Homeopathic Elixir", 300);
+    expect(chooseRestore(100, 0)?.name).toEqual("scroll of drastic healing");
+  });
+
+  it("values restore skills by the MP they cost", () => {
+    state.skills.add("Cannelloni Cocoon");
+    state.prices.set("Doc Galaktik's Homeopathic Elixir", 300);
+    state.prices.set("scroll of drastic healing", 600);
+    expect(chooseRestore(50, 0)?.name).toEqual("Cannelloni Cocoon");
+    state.mp = 0;
+    expect(chooseRestore(50, 0)?.name).toEqual("scroll of drastic healing");
+  });
+
+  it("saves free restores for large restores", () => {
+    state.properties.set("_hotTubSoaks", "2");
+    state.items.set("Clan VIP Lounge key", 1);
+    expect(chooseRestore(100, 100)?.name).toEqual("Hot tub");
+    expect(chooseRestore(10, 0)?.name).toEqual("Doc Galaktik's Homeopathic Elixir");
+  });
+
+  it("keeps some hot tub soaks in reserve", () => {
+    state.properties.set("_hotTubSoaks", "3");
+    state.items.set("Clan VIP Lounge key", 1);
+    expect(chooseRestore(100, 100)?.name).not.toEqual("Hot tub");
+  });
+
+  it("keeps free rests at the Chateau for leveling", () => {
+    state.freeRests = 5;
+    state.properties.set("timesRested", "0");
+    state.prices.set("Doc Galaktik's Homeopathic Elixir", 300);
+    expect(chooseRestore(40, 20)?.name).toEqual("Free rest");
+    state.chateau = true;
+    expect(chooseRestore(100, 100)?.name).not.toEqual("Free rest");
+  });
+
+  it("does not buy restoratives beyond the meat budget", () => {
+    setMeatBudget(50);
+    expect(chooseRestore(50, 0)).toBeUndefined();
+  });
+});
+
+describe("restoreTargets", () => {
+  beforeEach(resetState);
+
+  it("restores more before fights and bosses", () => {
+    expect(restoreTargets(task({ freeaction: true }))).toEqual([0, 0]);
+    expect(restoreTargets(task({}))).toEqual([50, 50]);
+    expect(restoreTargets(task({ combat: new CombatStrategy().kill() }))).toEqual([75, 200]);
+    expect(restoreTargets(task({ combat: new CombatStrategy(true) }))).toEqual([100, 200]);
+  });
+});
@@ -0,0 +1,117 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { applyRouteOverrides, parseRouteOverrides, prioritize } from "../src/route";
+import { resetState } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("prioritize", () => {
+  beforeEach(resetState);
+
+  it("orders tasks by their position in the routing list", () => {
+    const tasks = [
+      task({ name: "Tower/Finish" }),
+      task({ name: "Toot/Finish" }),
+      task({ name: "Macguffin/Diary" }),
+    ];
+    expect(prioritize(tasks, true).map((t) => t.name)).toEqual([
+      "Toot/Finish",
+      "Macguffin/Diary",
+      "Tower/Finish",
+    ]);
+  });
+
+  it("pulls the dependencies of routed tasks forward", () => {
+    const tasks = [
+      task({ name: "Tower/Finish" }),
+      task({ name: "Mosquito/Start" }),
+      task({ name: "Toot/Finish", after: ["Mosquito/Start"] }),
+    ];
+    expect(prioritize(tasks, true).map((t) => t.name)).toEqual([
+      "Mosquito/Start",
+      "Toot/Finish",
+      "Tower/Finish",
+    ]);
+  });
+
+  it("keeps unrouted tasks in their original order after routed tasks", () => {
+    const tasks = [
+      task({ name: "Unrouted/B" }),
+      task({ name: "Unrouted/A" }),
+      task({ name: "Toot/Finish" }),
+    ];
+    expect(prioritize(tasks, true).map((t) => t.name)).toEqual([
+      "Toot/Finish",
+      "Unrouted/B",
+      "Unrouted/A",
+    ]);
+  });
+
+  it("throws on routing entries with no matching task", () => {
+    expect(() => prioritize([task({ name: "Toot/Finish" })])).toThrow(/Unknown routing task/);
+  });
+});
+
+describe("routing overrides", () => {
+  beforeEach(resetState);
+
+  const known = new Set(["A", "B", "C", "D"]);
+
+  it("parses pins, moves, and removals", () => {
+    const overrides = parseRouteOverrides(
+      "# No camel\npin Crypt/Nook\n\nmove Hidden City/Open Bowling after Crypt/Finish\nremove Tavern/Finish\n"
+    );
+    expect(overrides).toEqual([
+      { kind: "pin", task: "Crypt/Nook" },
+      {
+        kind: "move",
+        task: "Hidden City/Open Bowling",
+        where: "after",
+        target: "Crypt/Finish",
+      },
+      { kind: "remove", task: "Tavern/Finish" },
+    ]);
+    expect(() => parseRouteOverrides("shuffle A")).toThrow(/line 1: unknown command shuffle/);
+    expect(() => parseRouteOverrides("move A")).toThrow(/line 1: expected/);
+  });
+
+  it("merges overrides with the routing list", () => {
+    const overrides = parseRouteOverrides("pin D\nmove A after C\nremove B");
+    expect(applyRouteOverrides(["A", "B", "C"], overrides, known)).toEqual(["D", "C", "A"]);
+  });
+
+  it("rejects unknown task names", () => {
+    expect(() => applyRouteOverrides(["A"], parseRouteOverrides("pin E"), known)).toThrow(
+      "Unknown task E in routing override"
+    );
+    expect(() => applyRouteOverrides(["A"], parseRouteOverrides("move A before E"), known)).toThrow(
+      "Unknown task E in routing override"
+    );
+  });
+
+  it("reports moves relative to pinned tasks", () => {
+    const overrides = parseRouteOverrides("pin A\nmove B after A");
+    expect(() => applyRouteOverrides(["A", "B", "C"], overrides, known)).toThrow(
+      "Cannot move B relative to A, which is pinned"
+    );
+    const problems: string[] = [];
+    expect(applyRouteOverrides(["A", "B", "C"], overrides, known, problems)).toEqual([
+      "A",
+      "B",
+      "C",
+    ]);
+    expect(problems).toEqual(["Cannot move B relative to A, which is pinned (pin B instead)"]);
+  });
+
+  it("applies overrides when prioritizing", () => {
+    const tasks = [
+      task({ name: "Tower/Finish" }),
+      task({ name: "Toot/Finish" }),
+      task({ name: "Macguffin/Diary" }),
+    ];
+    const overrides = parseRouteOverrides("move Toot/Finish after Macguffin/Diary");
+    expect(prioritize(tasks, true, overrides).map((t) => t.name)).toEqual([
+      "Macguffin/Diary",
+      "Toot/Finish",
+      "Tower/Finish",
+    ]);
+  });
+});
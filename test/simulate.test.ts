@@ -0,0 +1,37 @@
+import { describe, expect, it } from "@jest/globals";
+import { chooseKill, FightEstimate } from "../src/simulate";
+
+function estimate(extra: Partial<FightEstimate>): FightEstimate {
+  return {
+    monster_hp: 100,
+    hit_chance: 1,
+    attack_damage: 10,
+    spell_damage: 50,
+    damage_taken: 5,
+    ...extra,
+  };
+}
+
+describe("chooseKill", () => {
+  it("uses a free kill when one is available", () => {
+    expect(chooseKill(estimate({}), 100, true)[0]).toEqual("freekill");
+  });
+
+  it("attacks when the fight is short and survivable", () => {
+    expect(chooseKill(estimate({}), 100, false)).toEqual([
+      "attack",
+      "attacking takes ~10 rounds at 100% to hit, taking ~50 of 100 HP",
+    ]);
+  });
+
+  it("casts when attacking would lose the fight", () => {
+    expect(chooseKill(estimate({}), 40, false)[0]).toEqual("spell");
+    expect(chooseKill(estimate({ hit_chance: 0, attack_damage: 0 }), 100, false)[0]).toEqual(
+      "spell"
+    );
+  });
+
+  it("attacks when there is no better option", () => {
+    expect(chooseKill(estimate({ spell_damage: 0 }), 40, false)[0]).toEqual("attack");
+  });
+});
@@ -0,0 +1,47 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Item } from "kolmafia";
+import { obtain, purchase, purchases, setMeatBudget, spendFor, totalSpent } from "../src/spending";
+import { resetState, state } from "./fakes/state";
+
+describe("spending", () => {
+  beforeEach(() => {
+    resetState();
+    setMeatBudget(undefined);
+    state.meat = 10000;
+    state.prices.set("tomb ratchet", 1000);
+    state.prices.set("Louder Than Bomb", 500);
+  });
+
+  it("records each purchase against the current task", () => {
+    spendFor("Macguffin/Middle Chamber");
+    expect(purchase(Item.get("tomb ratchet"), 2)).toEqual(2);
+    spendFor("Crypt/Niche");
+    obtain(Item.get("Louder Than Bomb"));
+    expect(purchases()).toEqual([
+      {
+        task: "Macguffin/Middle Chamber",
+        item: "tomb ratchet",
+        quantity: 2,
+        price: 1000,
+        spent: 2000,
+      },
+      { task: "Crypt/Niche", item: "Louder Than Bomb", quantity: 1, price: 500, spent: 500 },
+    ]);
+    expect(totalSpent()).toEqual(2500);
+  });
+
+  it("does not record items that were already owned", () => {
+    state.items.set("Louder Than Bomb", 1);
+    obtain(Item.get("Louder Than Bomb"));
+    expect(purchases()).toEqual([]);
+  });
+
+  it("enforces the meat budget", () => {
+    setMeatBudget(2500);
+    purchase(Item.get("tomb ratchet"), 2);
+    expect(() => purchase(Item.get("tomb ratchet"), 1)).toThrow(/would exceed the meat budget/);
+    expect(state.meat).toEqual(8000);
+    obtain(Item.get("Louder Than Bomb"));
+    expect(totalSpent()).toEqual(2500);
+  });
+});
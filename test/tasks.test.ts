@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { all_tasks, buildTaskList, findGoal, goals, goalTasks } from "../src/tasks/all";
+import { resetState } from "./fakes/state";
+import { quest } from "./fakes/tasks";
+
+describe("buildTaskList", () => {
+  beforeEach(resetState);
+
+  it("prefixes task names and local dependencies with the quest name", () => {
+    const tasks = buildTaskList([
+      quest("First", [
+        ["Start", []],
+        ["Finish", ["Start"]],
+      ]),
+    ]);
+    expect(tasks.map((task) => task.name)).toEqual(["First/Start", "First/Finish"]);
+    expect(tasks[1].after).toEqual(["First/Start"]);
+  });
+
+  it("keeps dependencies on other quests", () => {
+    const tasks = buildTaskList([
+      quest("First", [["Start", []]]),
+      quest("Second", [["Start", ["First/Start"]]]),
+    ]);
+    expect(tasks[1].after).toEqual(["First/Start"]);
+  });
+
+  it("throws on unknown dependencies", () => {
+    expect(() => buildTaskList([quest("First", [["Finish", ["Start"]]])])).toThrow(
+      "Unknown task dependency First/Start of First/Finish"
+    );
+    expect(() => buildTaskList([quest("First", [["Finish", ["Missing/Start"]]])])).toThrow(
+      /Unknown task dependency Missing\/Start/
+    );
+  });
+
+  it("does not modify the quests", () => {
+    const first = quest("First", [
+      ["Start", []],
+      ["Finish", ["Start"]],
+    ]);
+    buildTaskList([first]);
+    expect(first.tasks.map((task) => task.name)).toEqual(["Start", "Finish"]);
+    expect(buildTaskList([first])[1].after).toEqual(["First/Start"]);
+  });
+
+  it("builds the full task list offline", () => {
+    const tasks = all_tasks();
+    const names = new Set(tasks.map((task) => task.name));
+    expect(names.size).toEqual(tasks.length);
+    for (const task of tasks) {
+      for (const after of task.after) expect(names).toContain(after);
+    }
+  });
+
+  it("explains what every ready() task is waiting for", () => {
+    const unexplained = all_tasks()
+      .filter((task) => task.ready !== undefined && task.readyReason === undefined)
+      .map((task) => task.name);
+    expect(unexplained).toEqual([]);
+  });
+});
+
+describe("goalTasks", () => {
+  beforeEach(resetState);
+
+  it("builds overlapping goals", () => {
+    const quest_names = goalTasks(findGoal("quests")).map((task) => task.name);
+    const all_names = goalTasks(findGoal("all")).map((task) => task.name);
+    for (const name of quest_names) expect(all_names).toContain(name);
+    expect(goalTasks(findGoal("level"))[0].name).toMatch(/^Leveling\//);
+  });
+
+  it("includes the dependencies of each goal", () => {
+    for (const goal of goals) {
+      const tasks = goalTasks(goal);
+      const names = new Set(tasks.map((task) => task.name));
+      for (const task of tasks) {
+        for (const after of task.after) expect(names).toContain(after);
+      }
+    }
+  });
+
+  it("includes only the needed tasks from other quests", () => {
+    const names = goalTasks(findGoal("war")).map((task) => task.name);
+    expect(names).toContain("War/Enrage");
+    expect(names).toContain("Misc/Unlock Island");
+    expect(names).not.toContain("Misc/Voting");
+  });
+
+  it("keeps the built-in quest goals to their own quests", () => {
+    const names = goalTasks(findGoal("organ")).map((task) => task.name);
+    expect(names.every((name) => /^(Friar|Organ)\//.test(name))).toBe(true);
+    expect(goalTasks(findGoal("level")).every((task) => task.name.startsWith("Leveling/"))).toBe(
+      true
+    );
+  });
+
+  it("builds custom goals from quests and tasks", () => {
+    const goal = findGoal("Crypt, Keys/Daily Dungeon");
+    const names = goalTasks(goal).map((task) => task.name);
+    expect(names).toContain("Crypt/Start");
+    expect(names).toContain("Keys/Daily Dungeon");
+    expect(names).toContain("Keys/Deck");
+    expect(names).not.toContain("Keys/Finish");
+    expect(names).not.toContain("War/Enrage");
+  });
+
+  it("rejects unknown goals", () => {
+    expect(() => findGoal("Crypt,Nowhere")).toThrow("Nowhere");
+  });
+});
@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { routing } from "../src/route";
+import { all_quests, goalQuests } from "../src/tasks/all";
+import { findProblems } from "../src/validate";
+import { resetState } from "./fakes/state";
+import { quest } from "./fakes/tasks";
+
+describe("findProblems", () => {
+  beforeEach(resetState);
+
+  const first = quest("First", [
+    ["Start", []],
+    ["Finish", ["Start"]],
+  ]);
+  const second = quest("Second", [["Start", ["First/Finish"]]]);
+
+  it("accepts a valid graph", () => {
+    expect(
+      findProblems([first, second], { all: [first, second] }, ["First/Finish", "Second/Start"])
+    ).toEqual([]);
+  });
+
+  it("reports cycles and the tasks they block", () => {
+    const cyclic = quest("Cyclic", [
+      ["A", ["B"]],
+      ["B", ["A"]],
+      ["C", ["B"]],
+    ]);
+    const problems = findProblems([cyclic], { all: [cyclic] }, []);
+    expect(problems).toContain("Dependency cycle: Cyclic/A -> Cyclic/B -> Cyclic/A");
+    expect(problems).toContain(
+      "Task Cyclic/C can never become available, since it depends on a cycle"
+    );
+  });
+
+  it("reports tasks that are not included by any goal", () => {
+    const orphan = quest("Orphan", [
+      ["Start", []],
+      ["Finish", ["Start"]],
+    ]);
+    expect(findProblems([first, second, orphan], { all: [first, second] }, [])).toEqual([
+      "Task Orphan/Start is unreachable from any goal",
+      "Task Orphan/Finish is unreachable from any goal",
+    ]);
+  });
+
+  it("reports repeated and unknown routing entries", () => {
+    expect(
+      findProblems([first], { all: [first] }, ["First/Start", "First/Start", "First/Missing"])
+    ).toEqual([
+      "Routing entry First/Start appears more than once",
+      "Routing entry First/Missing is not a known task",
+    ]);
+  });
+
+  it("reports dependencies that cross between goals", () => {
+    expect(findProblems([first, second], { all: [first, second], partial: [second] }, [])).toEqual([
+      "Goal partial: task Second/Start depends on First/Finish, which is not included",
+    ]);
+  });
+
+  it("finds no problems in the script tasks", () => {
+    expect(findProblems(all_quests, goalQuests(), routing)).toEqual([]);
+  });
+});
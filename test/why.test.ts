@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, it } from "@jest/globals";
+import { Engine } from "../src/engine";
+import { explain } from "../src/why";
+import { resetState, state } from "./fakes/state";
+import { task } from "./fakes/tasks";
+
+describe("explain", () => {
+  beforeEach(resetState);
+
+  const engine = () =>
+    new Engine([
+      task({ name: "Crypt/Start", ready: () => state.level >= 7, readyReason: "Requires level 7" }),
+      task({ name: "Crypt/Nook", after: ["Crypt/Start"] }),
+      task({ name: "Crypt/Done", completed: () => true }),
+    ]);
+
+  it("gives the reason for each blocked requirement", () => {
+    const tasks = engine();
+    expect(explain(tasks, tasks.tasks[0])).toEqual(
+      "Crypt/Start: not ready (Requires level 7), out of adventures"
+    );
+    expect(explain(tasks, tasks.tasks[1])).toEqual(
+      "Crypt/Nook: after Crypt/Start, out of adventures"
+    );
+  });
+
+  it("reports available and completed tasks", () => {
+    state.level = 7;
+    state.adventures = 10;
+    const tasks = engine();
+    expect(explain(tasks, tasks.tasks[0])).toEqual("Crypt/Start: available");
+    expect(explain(tasks, tasks.tasks[2])).toEqual("Crypt/Done: completed");
+  });
+});
@@ -13,6 +13,11 @@ module.exports = {
     // You need an emitted file for each entrypoint into your code, e.g. the main script and the ccs or ccs consult script it calls
     loopcasual: "./src/main.ts",
     "loopcasual-combat": "./src/combat.ts",
+    // Relay scripts must be placed in the relay directory, next to scripts
+    relay_loopcasual: {
+      import: "./src/relay.ts",
+      filename: "../../relay/relay_loopcasual.js",
+    },
   },
   // Turns on tree-shaking and minification in the default Terser minifier
   // https://webpack.js.org/plugins/terser-webpack-plugin/